@@ -7,14 +7,249 @@
 
 import { Command } from "commander";
 import chalk from "chalk";
+import type { LanguageModel, ModelMessage } from "ai";
+import type { z } from "zod";
 import { loading } from "../components/ui/loading";
-import { loadConfig } from "../config/config";
+import {
+  renderMarkdown,
+  shouldRenderMarkdown,
+} from "../components/ui/markdown";
+import type {
+  Config,
+  PromptTemplate,
+  RetryConfig,
+} from "../config/config";
+import { loadEffectiveConfig } from "../config/project";
+import { openSession, saveSession } from "../config/sessions";
+import {
+  getTemplate,
+  renderTemplate,
+  resolveSystemPrompt,
+} from "../config/prompts";
+import { getSessionUsage } from "../config/usage";
+import { formatRedactions, redactMessages } from "../utils/redact";
+import { resolvePipedInput, type PipedRequest } from "../utils/stdin";
+import {
+  collectFileContext,
+  collectValues,
+  describeFileContext,
+} from "../utils/file-context";
+import {
+  formatValidationError,
+  loadJsonSchema,
+  type JsonSchema,
+} from "../utils/json-schema";
+import { toYaml } from "../utils/yaml";
+import { getContextWindow } from "../config/providers";
+import { startChat, type ChatOptions } from "./chat";
 import {
   createModelWithOverride,
+  describeModel,
+  generateAIObject,
   generateAIText,
+  generateStructured,
+  modelAlias,
   streamAIText,
 } from "../config/ai";
 
+/** Answer formats accepted by --format */
+const ASK_FORMATS = ["markdown", "text", "json", "yaml"] as const;
+
+type AskFormat = (typeof ASK_FORMATS)[number];
+
+/**
+ * Validates --format, defaulting to json when only --schema is given
+ */
+function parseFormat(format?: string, schemaFile?: string): AskFormat {
+  const selected = format || (schemaFile ? "json" : "markdown");
+  if (!ASK_FORMATS.includes(selected as AskFormat)) {
+    throw new Error(
+      `Invalid --format "${selected}". Use ${ASK_FORMATS.join(", ")}.`,
+    );
+  }
+  if (schemaFile && selected !== "json" && selected !== "yaml") {
+    throw new Error("--schema requires --format json or yaml");
+  }
+  return selected as AskFormat;
+}
+
+/**
+ * Format instructions appended to the system prompt
+ */
+function formatInstructions(format: AskFormat, schema?: JsonSchema): string {
+  switch (format) {
+    case "text":
+      return "\n\nRespond in plain text without any markdown formatting.";
+    case "json":
+    case "yaml":
+      // YAML is produced from the validated JSON answer
+      return schema
+        ? `\n\nYou MUST respond with valid JSON only, no other text or formatting. The JSON must match this JSON Schema:\n${JSON.stringify(schema, null, 2)}`
+        : "\n\nYou MUST respond with valid JSON only, no other text or formatting. Choose a structure that fits the question.";
+    default:
+      return "";
+  }
+}
+
+/**
+ * Asks for a JSON answer, validating it against the schema if one is given
+ *
+ * @param warnings - Receives notes about repairs made to the model's JSON
+ * @throws Error if no valid JSON came back or it doesn't match the schema
+ */
+async function generateStructuredAnswer(
+  model: LanguageModel,
+  messages: ModelMessage[],
+  system: string,
+  retry: RetryConfig | undefined,
+  zodSchema: z.ZodType | undefined,
+  warnings: string[],
+): Promise<unknown> {
+  if (zodSchema) {
+    const data = await generateAIObject(model, zodSchema, {
+      messages,
+      system,
+      retry,
+    });
+    // The JSON-parsing fallback doesn't guarantee a match, so check again
+    const result = zodSchema.safeParse(data);
+    if (!result.success) {
+      throw new Error(
+        `Answer does not match the schema: ${formatValidationError(result.error)}`,
+      );
+    }
+    return result.data;
+  }
+
+  const result = await generateStructured(model, { messages, system, retry });
+  if (result.data === null) {
+    throw new Error("The model did not return valid JSON");
+  }
+  if (result.fixes) {
+    warnings.push(`Repaired ${result.fixes} JSON syntax issue(s) in the answer`);
+  }
+  warnings.push(...(result.warnings || []));
+  return result.data;
+}
+
+/**
+ * A question with everything attached to it
+ */
+interface PreparedQuestion {
+  /** User message: attached files, piped input and the (templated) question */
+  content: string;
+  /** Template the question was filled into */
+  template?: PromptTemplate;
+}
+
+/**
+ * Builds the user message from the question, piped input, --template and
+ * --file/--context
+ *
+ * Shared by one-shot questions and `ask -i`, whose chat starts from the
+ * same message.
+ *
+ * @param warn - Receives notices about truncated input and skipped files
+ * @param showAttached - Print the attached files
+ * @throws Error for unknown templates and templates that render nothing
+ */
+function prepareQuestion(
+  piped: PipedRequest,
+  options: { template?: string; file?: string[]; context?: string[] },
+  config: Config,
+  model: LanguageModel,
+  warn: (message: string) => void,
+  showAttached: boolean,
+): PreparedQuestion {
+  if (piped.notice) {
+    warn(piped.notice);
+  }
+
+  const template = options.template
+    ? getTemplate(config, options.template)
+    : undefined;
+  const prompt = template ? renderTemplate(template, piped.query) : piped.query;
+  if (!prompt.trim()) {
+    throw new Error(`Template "${options.template}" rendered an empty prompt`);
+  }
+
+  const { provider, model: modelName } = describeModel(model);
+  const fileContext = collectFileContext(
+    options.file || [],
+    options.context || [],
+    getContextWindow(provider, modelName),
+  );
+  const { attached, warnings: fileWarnings } = describeFileContext(fileContext);
+  if (showAttached) {
+    for (const line of attached) {
+      console.log(chalk.gray(`📎 ${line}`));
+    }
+  }
+  fileWarnings.forEach(warn);
+
+  const content = [
+    ...fileContext.blocks,
+    ...(piped.context ? [piped.context] : []),
+    prompt,
+  ].join("\n\n");
+  return { content, template };
+}
+
+/**
+ * Starts a chat from the question, as `ask -i`
+ *
+ * The first message is built like a one-shot question; the answer formats
+ * of a one-shot question don't apply to a chat and are refused.
+ *
+ * @throws Error for --format, --schema or --json, and for attached input
+ *         without a question
+ */
+async function askInteractive(
+  questionParts: string[],
+  options: ChatOptions & {
+    format?: string;
+    schema?: string;
+    json?: boolean;
+    template?: string;
+    file?: string[];
+    context?: string[];
+  },
+): Promise<void> {
+  const formatFlags = (["format", "schema", "json"] as const)
+    .filter((flag) => options[flag])
+    .map((flag) => `--${flag}`);
+  if (formatFlags.length > 0) {
+    throw new Error(
+      `${formatFlags.join(", ")} can't be used with -i; chat replies are always streamed as text`,
+    );
+  }
+
+  const piped = await resolvePipedInput(questionParts);
+  if (!piped.query && !options.template) {
+    if (piped.consumedStdin || options.file?.length || options.context?.length) {
+      throw new Error("missing question to go with the attached input");
+    }
+    await startChat("", options);
+    return;
+  }
+
+  const config = loadEffectiveConfig();
+  const model = createModelWithOverride(config, options.provider, options.model);
+  const { content, template } = prepareQuestion(
+    piped,
+    options,
+    config,
+    model,
+    (message) => console.log(chalk.yellow(`⚠️  ${message}`)),
+    true,
+  );
+  await startChat(
+    piped.query || `(template ${options.template})`,
+    { ...options, system: options.system || template?.system },
+    content,
+  );
+}
+
 /**
  * Registers the ask command with the provided program.
  */
@@ -23,34 +258,154 @@ export function setupAskCommand(program: Command): void {
     .command("ask")
     .alias("a")
     .description("Ask AI a question")
-    .argument("<question...>", "question to ask")
+    .argument("[question...]", "question to ask (use - to read stdin explicitly)")
     .option("--completion", "wait for complete response instead of streaming")
+    .option("--raw", "print the response as plain text without markdown rendering")
+    .option(
+      "--format <format>",
+      "answer format: markdown, text, json or yaml (default markdown)",
+    )
+    .option(
+      "--schema <file>",
+      "JSON Schema file the answer must match (implies --format json)",
+    )
+    .option(
+      "--json",
+      "output a JSON envelope with answer, provider, model, usage and warnings",
+    )
+    .option(
+      "--template <name>",
+      "fill a prompt template from the config with the question as {{input}}",
+    )
+    .option("-i, --interactive", "continue as a multi-turn chat (same as aish chat)")
     .option("--provider <provider>", "AI provider to use (overrides default)")
     .option(
       "--model <model>",
       "model to use (overrides provider's preferred model)",
     )
+    .option("--show-redactions", "show which secrets were masked before sending")
+    .option("--session <name>", "continue a named conversation and save this turn to it")
+    .option("--file <path>", "attach a file as context (repeatable)", collectValues)
+    .option(
+      "--context <glob>",
+      "attach files matching a glob, respecting .gitignore (repeatable)",
+      collectValues,
+    )
     .allowUnknownOption()
-    .action(async (questionParts, options) => {
-      const question = questionParts.join(" ");
+    .action(async (questionParts: string[], options) => {
+      if (options.interactive) {
+        try {
+          await askInteractive(questionParts, options);
+        } catch (error) {
+          console.log(
+            chalk.red(
+              `❌ Error: ${error instanceof Error ? error.message : "Unknown error occurred"}`,
+            ),
+          );
+          process.exitCode = 1;
+        }
+        return;
+      }
+
+      // --json prints only the envelope; notices become warnings in it
+      const jsonMode: boolean = options.json || false;
+      const warnings: string[] = [];
+      const warn = (message: string) => {
+        if (jsonMode) {
+          warnings.push(message);
+        } else {
+          console.log(chalk.yellow(`⚠️  ${message}`));
+        }
+      };
+      let model: LanguageModel | undefined;
+
       try {
-        const config = loadConfig();
-        const model = createModelWithOverride(
+        const format = parseFormat(options.format, options.schema);
+        const structured = format === "json" || format === "yaml";
+        const schema = options.schema
+          ? loadJsonSchema(options.schema)
+          : undefined;
+
+        // Piped input becomes context for the question (or the question itself)
+        const piped = await resolvePipedInput(questionParts);
+        if (!piped.query && !options.template) {
+          throw new Error("missing question (or use -i for a chat)");
+        }
+
+        const config = loadEffectiveConfig();
+        model = createModelWithOverride(
           config,
           options.provider,
           options.model,
         );
+        const { content, template } = prepareQuestion(
+          piped,
+          options,
+          config,
+          model,
+          warn,
+          !jsonMode,
+        );
+        const session = options.session
+          ? openSession(options.session)
+          : undefined;
+        const { messages, redactions } = redactMessages(
+          [...(session?.messages || []), { role: "user", content }],
+          config.redaction,
+        );
 
-        if (options.completion) {
-          const response = await loading.withLoading(
-            generateAIText(model, {
-              prompt: question,
-              system:
-                "You are a helpful AI assistant. Provide clear, concise, and accurate responses.",
-            }),
-            "Thinking",
+        if (jsonMode && redactions.length > 0) {
+          warnings.push(
+            `${redactions.length} secret(s) were redacted before sending`,
+          );
+        } else if (options.showRedactions && redactions.length > 0) {
+          console.log(chalk.yellow(`🔒 Redacted before sending:`));
+          for (const line of formatRedactions(redactions)) {
+            console.log(chalk.gray(`  • ${line}`));
+          }
+        }
+
+        const system =
+          resolveSystemPrompt(config, "ask", modelAlias(model), template?.system) +
+          formatInstructions(format, schema?.schema);
+        const markdown =
+          format === "markdown" && shouldRenderMarkdown(options.raw);
+
+        let answer: unknown;
+        let response: string;
+        if (structured) {
+          const answerPromise = generateStructuredAnswer(
+            model,
+            messages,
+            system,
+            config.retry,
+            schema?.zodSchema,
+            warnings,
           );
-          console.log(response);
+          answer = jsonMode
+            ? await answerPromise
+            : await loading.withLoading(answerPromise, "Thinking");
+          response = JSON.stringify(answer);
+          if (!jsonMode) {
+            console.log(
+              format === "yaml"
+                ? toYaml(answer)
+                : JSON.stringify(answer, null, 2),
+            );
+          }
+        } else if (options.completion || jsonMode) {
+          const responsePromise = generateAIText(model, {
+            messages,
+            system,
+            retry: config.retry,
+          });
+          response = jsonMode
+            ? await responsePromise
+            : await loading.withLoading(responsePromise, "Thinking");
+          answer = response;
+          if (!jsonMode) {
+            console.log(markdown ? renderMarkdown(response) : response);
+          }
         } else {
           loading.start("Thinking");
           let spinnerStopped = false;
@@ -61,24 +416,58 @@ export function setupAskCommand(program: Command): void {
             }
           };
 
-          await streamAIText(
+          response = await streamAIText(
             model,
             {
-              prompt: question,
-              system:
-                "You are a helpful AI assistant. Provide clear, concise, and accurate responses.",
+              messages,
+              system,
+              retry: config.retry,
+              markdown,
             },
             () => {
               stopSpinner();
             },
           );
+          answer = response;
+        }
+
+        if (session) {
+          session.messages.push(
+            { role: "user", content },
+            { role: "assistant", content: response },
+          );
+          Object.assign(session, describeModel(model));
+          saveSession(session);
+        }
+
+        if (jsonMode) {
+          console.log(
+            JSON.stringify({
+              answer,
+              ...describeModel(model),
+              usage: getSessionUsage(),
+              warnings,
+            }),
+          );
         }
       } catch (error) {
-        console.log(
-          chalk.red(
-            `❌ Error: ${error instanceof Error ? error.message : "Unknown error occurred"}`,
-          ),
-        );
+        const message =
+          error instanceof Error ? error.message : "Unknown error occurred";
+        if (jsonMode) {
+          console.log(
+            JSON.stringify({
+              answer: null,
+              ...(model ? describeModel(model) : {}),
+              usage: getSessionUsage(),
+              warnings,
+              error: message,
+            }),
+          );
+        } else {
+          console.log(chalk.red(`❌ Error: ${message}`));
+        }
+        // Let scripts detect failures
+        process.exitCode = 1;
       }
     });
 }
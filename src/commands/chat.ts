@@ -0,0 +1,482 @@
+/**
+ * Chat Command Module
+ *
+ * Interactive multi-turn conversation with the configured AI provider.
+ * Available as `aish chat` and `aish ask -i`. Keeps the conversation as a
+ * ModelMessage[] history, streams each reply, and supports slash commands
+ * for switching models, editing the system prompt and saving transcripts.
+ */
+
+import { Command } from "commander";
+import chalk from "chalk";
+import { createInterface, type Interface } from "readline";
+import { writeFileSync } from "fs";
+import { resolve } from "path";
+import type { LanguageModel, ModelMessage } from "ai";
+import { loading } from "../components/ui/loading";
+import { shouldRenderMarkdown } from "../components/ui/markdown";
+import type { Config } from "../config/config";
+import { resolveSystemPrompt } from "../config/prompts";
+import { loadEffectiveConfig } from "../config/project";
+import {
+  createModelWithOverride,
+  describeModel,
+  modelAlias,
+  streamAIText,
+} from "../config/ai";
+import {
+  formatTranscript,
+  openSession,
+  saveSession,
+  type Session,
+} from "../config/sessions";
+import { formatRedactions, redactMessages } from "../utils/redact";
+
+/** Delimiter that starts and ends a multi-line message */
+const MULTILINE_DELIMITER = '"""';
+
+/**
+ * Options accepted by `aish chat` and `aish ask -i`
+ */
+export interface ChatOptions {
+  provider?: string;
+  model?: string;
+  system?: string;
+  showRedactions?: boolean;
+  session?: string;
+  raw?: boolean;
+}
+
+/**
+ * Mutable state of a chat session
+ */
+interface ChatState {
+  config: Config;
+  model: LanguageModel;
+  /** Provider override selected with --provider or /provider */
+  provider?: string;
+  /**
+   * System prompt from --system, /system or the session; without one the
+   * configured `ask` prompt of the current provider is used
+   */
+  system?: string;
+  messages: ModelMessage[];
+  showRedactions: boolean;
+  /** Named session the conversation is saved to after every reply */
+  session?: Session;
+  /** Render replies as terminal markdown */
+  markdown: boolean;
+}
+
+/**
+ * Registers the chat command with the provided program.
+ */
+export function setupChatCommand(program: Command): void {
+  program
+    .command("chat")
+    .description("Start an interactive multi-turn conversation")
+    .argument("[message...]", "optional first message")
+    .option("--provider <provider>", "AI provider to use (overrides default)")
+    .option(
+      "--model <model>",
+      "model to use (overrides provider's preferred model)",
+    )
+    .option("--system <prompt>", "system prompt for the conversation")
+    .option("--show-redactions", "show which secrets were masked before sending")
+    .option("--session <name>", "resume a named conversation and keep saving to it")
+    .option("--raw", "print replies as plain text without markdown rendering")
+    .action(async (messageParts: string[], options: ChatOptions) => {
+      try {
+        await startChat(messageParts.join(" "), options);
+      } catch (error) {
+        console.log(
+          chalk.red(
+            `❌ Error: ${error instanceof Error ? error.message : "Unknown error occurred"}`,
+          ),
+        );
+      }
+    });
+}
+
+/**
+ * Runs the chat loop until /exit or end of input
+ *
+ * @param initialMessage - Optional first message to send right away
+ * @param options - Provider, model and prompt settings
+ * @param initialContent - What is sent for the first message, when it
+ *                         carries more than is shown (attached files, ...)
+ */
+export async function startChat(
+  initialMessage: string,
+  options: ChatOptions,
+  initialContent: string = initialMessage,
+): Promise<void> {
+  const config = loadEffectiveConfig();
+  const session = options.session ? openSession(options.session) : undefined;
+  const state: ChatState = {
+    config,
+    model: createModelWithOverride(config, options.provider, options.model),
+    provider: options.provider,
+    system: options.system || session?.system,
+    messages: session?.messages || [],
+    showRedactions: options.showRedactions || false,
+    session,
+    markdown: shouldRenderMarkdown(options.raw),
+  };
+
+  const rl = createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    terminal: process.stdin.isTTY,
+    historySize: 100,
+  });
+  rl.on("SIGINT", () => rl.close());
+  const reader = createLineReader(rl);
+  // Input already read to the end (piped into `ask -i`) has no more turns
+  if (process.stdin.readableEnded || process.stdin.destroyed) {
+    reader.closed = true;
+  }
+
+  console.log(
+    chalk.bold(`💬 Chatting with ${describeCurrentModel(state)}`) +
+      chalk.gray(
+        ` — /help for commands, ${MULTILINE_DELIMITER} for multi-line input, /exit to quit`,
+      ),
+  );
+  if (session && state.messages.length > 0) {
+    console.log(
+      chalk.gray(
+        `Resuming session "${session.name}" (${state.messages.length} messages)`,
+      ),
+    );
+  }
+
+  try {
+    if (initialMessage.trim()) {
+      console.log(chalk.cyan(`› ${initialMessage}`));
+      await sendMessage(state, rl, initialContent);
+    }
+
+    while (true) {
+      const input = await readMessage(reader);
+      if (input === null) break;
+
+      const trimmed = input.trim();
+      if (!trimmed) continue;
+
+      if (trimmed.startsWith("/")) {
+        const keepGoing = await handleSlashCommand(state, trimmed);
+        if (!keepGoing) break;
+        continue;
+      }
+
+      await sendMessage(state, rl, input);
+    }
+  } finally {
+    rl.close();
+  }
+
+  console.log(chalk.yellow("👋 Goodbye!"));
+}
+
+/**
+ * Line reader that buffers input, so piped lines aren't lost while a reply
+ * streams
+ */
+interface LineReader {
+  rl: Interface;
+  queue: string[];
+  closed: boolean;
+  waiting?: (line: string | null) => void;
+}
+
+/**
+ * Wraps a readline interface in a buffering line reader
+ */
+function createLineReader(rl: Interface): LineReader {
+  const reader: LineReader = { rl, queue: [], closed: false };
+
+  rl.on("line", (line) => {
+    const waiting = reader.waiting;
+    reader.waiting = undefined;
+    if (waiting) waiting(line);
+    else reader.queue.push(line);
+  });
+  rl.on("close", () => {
+    reader.closed = true;
+    reader.waiting?.(null);
+    reader.waiting = undefined;
+  });
+
+  return reader;
+}
+
+/**
+ * Reads one line, resolving null when input ends (Ctrl+D / Ctrl+C)
+ */
+function readLine(reader: LineReader, prompt: string): Promise<string | null> {
+  const buffered = reader.queue.shift();
+  if (buffered !== undefined) return Promise.resolve(buffered);
+  if (reader.closed) return Promise.resolve(null);
+
+  reader.rl.setPrompt(prompt);
+  reader.rl.prompt();
+  return new Promise((resolve) => {
+    reader.waiting = resolve;
+  });
+}
+
+/**
+ * Reads a message, joining continuation lines
+ *
+ * A line ending in `\` continues on the next line, and `"""` on its own
+ * line starts a block that runs until the closing `"""`.
+ */
+async function readMessage(reader: LineReader): Promise<string | null> {
+  const first = await readLine(reader, chalk.cyan("› "));
+  if (first === null) return null;
+
+  if (first.trim() === MULTILINE_DELIMITER) {
+    const lines: string[] = [];
+    while (true) {
+      const line = await readLine(reader, chalk.gray("… "));
+      if (line === null || line.trim() === MULTILINE_DELIMITER) break;
+      lines.push(line);
+    }
+    return lines.join("\n");
+  }
+
+  const lines = [first];
+  while (lines[lines.length - 1]!.endsWith("\\")) {
+    lines[lines.length - 1] = lines[lines.length - 1]!.slice(0, -1);
+    const line = await readLine(reader, chalk.gray("… "));
+    if (line === null) break;
+    lines.push(line);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Sends a user message and streams the reply into the history
+ */
+async function sendMessage(
+  state: ChatState,
+  rl: Interface,
+  content: string,
+): Promise<void> {
+  state.messages.push({ role: "user", content });
+
+  const { messages, redactions } = redactMessages(
+    state.messages,
+    state.config.redaction,
+  );
+  if (state.showRedactions && redactions.length > 0) {
+    console.log(chalk.yellow(`🔒 Redacted before sending:`));
+    for (const line of formatRedactions(redactions)) {
+      console.log(chalk.gray(`  • ${line}`));
+    }
+  }
+
+  // Keep keystrokes from echoing into the streamed reply
+  if (process.stdin.isTTY) rl.pause();
+  loading.start("Thinking");
+  try {
+    const reply = await streamAIText(
+      state.model,
+      {
+        system: currentSystemPrompt(state),
+        messages,
+        retry: state.config.retry,
+        markdown: state.markdown,
+      },
+      () => loading.stop(),
+    );
+    state.messages.push({ role: "assistant", content: reply });
+    persistSession(state);
+  } catch (error) {
+    // Drop the unanswered message so the user can retry or rephrase
+    state.messages.pop();
+    console.log(
+      chalk.red(
+        `❌ Error: ${error instanceof Error ? error.message : "Unknown error occurred"}`,
+      ),
+    );
+  } finally {
+    loading.stop();
+    if (process.stdin.isTTY) rl.resume();
+  }
+}
+
+/**
+ * Handles a slash command
+ *
+ * @returns false when the chat should end
+ */
+async function handleSlashCommand(
+  state: ChatState,
+  input: string,
+): Promise<boolean> {
+  const [command = "", ...args] = input.slice(1).split(/\s+/);
+  const argument = input.slice(command.length + 1).trim();
+
+  switch (command) {
+    case "exit":
+    case "quit":
+      return false;
+
+    case "help":
+      showHelp();
+      break;
+
+    case "clear":
+      state.messages = [];
+      persistSession(state);
+      console.log(chalk.gray("Conversation cleared."));
+      break;
+
+    case "system":
+      if (argument) {
+        state.system = argument;
+        persistSession(state);
+        console.log(chalk.gray("System prompt updated."));
+      } else {
+        console.log(chalk.gray(`System prompt: ${currentSystemPrompt(state)}`));
+      }
+      break;
+
+    case "model":
+      if (!argument) {
+        console.log(chalk.gray(`Model: ${describeCurrentModel(state)}`));
+        break;
+      }
+      switchModel(state, state.provider, argument);
+      break;
+
+    case "provider":
+      if (!args[0]) {
+        console.log(chalk.gray(`Model: ${describeCurrentModel(state)}`));
+        break;
+      }
+      switchModel(state, args[0], args[1]);
+      break;
+
+    case "save":
+      saveTranscript(state, argument);
+      break;
+
+    default:
+      console.log(
+        chalk.yellow(`Unknown command /${command}. Type /help for commands.`),
+      );
+  }
+
+  return true;
+}
+
+/**
+ * Saves the conversation to its named session, if any
+ */
+function persistSession(state: ChatState): void {
+  if (!state.session) return;
+
+  state.session.messages = state.messages;
+  // The configured prompt isn't saved, so later changes to it apply
+  state.session.system = state.system;
+  Object.assign(state.session, describeModel(state.model));
+  saveSession(state.session);
+}
+
+/**
+ * System prompt sent with the next message, including the configured context
+ */
+function currentSystemPrompt(state: ChatState): string {
+  return resolveSystemPrompt(
+    state.config,
+    "ask",
+    modelAlias(state.model),
+    state.system,
+  );
+}
+
+/**
+ * Switches provider and/or model, keeping the conversation
+ */
+function switchModel(
+  state: ChatState,
+  provider: string | undefined,
+  model: string | undefined,
+): void {
+  try {
+    state.model = createModelWithOverride(state.config, provider, model);
+    state.provider = provider;
+    console.log(chalk.gray(`Now using ${describeCurrentModel(state)}.`));
+  } catch (error) {
+    console.log(
+      chalk.red(
+        `❌ Error: ${error instanceof Error ? error.message : "Unknown error occurred"}`,
+      ),
+    );
+  }
+}
+
+/**
+ * Writes the conversation to a file: JSON messages for .json, markdown otherwise
+ */
+function saveTranscript(state: ChatState, file: string): void {
+  if (state.messages.length === 0) {
+    console.log(chalk.yellow("Nothing to save yet."));
+    return;
+  }
+
+  const path = resolve(
+    file || `aish-chat-${new Date().toISOString().replace(/[:.]/g, "-")}.md`,
+  );
+  const content = path.endsWith(".json")
+    ? JSON.stringify(
+        { system: currentSystemPrompt(state), messages: state.messages },
+        null,
+        2,
+      )
+    : formatTranscript(state.messages);
+
+  try {
+    writeFileSync(path, content);
+    console.log(chalk.green(`✅ Saved conversation to ${path}`));
+  } catch (error) {
+    console.log(
+      chalk.red(
+        `❌ Error: ${error instanceof Error ? error.message : "Unknown error occurred"}`,
+      ),
+    );
+  }
+}
+
+/**
+ * Provider/model label for the current model
+ */
+function describeCurrentModel(state: ChatState): string {
+  const { provider, model } = describeModel(state.model);
+  return `${provider}/${model}`;
+}
+
+/**
+ * Prints the slash command reference
+ */
+function showHelp(): void {
+  const commands: [string, string][] = [
+    ["/model [name]", "show or switch the model (same provider)"],
+    ["/provider <name> [model]", "switch to another configured provider"],
+    ["/system [prompt]", "show or replace the system prompt"],
+    ["/clear", "forget the conversation so far"],
+    ["/save [file]", "save the transcript (.md, or .json for messages)"],
+    ["/exit", "leave the chat (also Ctrl+D)"],
+  ];
+  for (const [command, description] of commands) {
+    console.log(`  ${chalk.cyan(command.padEnd(26))}${chalk.gray(description)}`);
+  }
+  console.log(
+    chalk.gray(
+      `\n  End a line with \\ to continue it, or wrap a block in ${MULTILINE_DELIMITER} lines.`,
+    ),
+  );
+}
@@ -11,10 +11,36 @@ import { spawn } from "child_process";
 import { z } from "zod";
 import { Command } from "commander";
 import os from "os";
-import { loadConfig } from "../config/config";
+import type { Config } from "../config/config";
+import { loadEffectiveConfig } from "../config/project";
 import type { LanguageModel, ModelMessage } from "ai";
 import { loading } from "../components/ui/loading";
-import { generateStructured, generateAIText } from "../config/ai";
+import { getSessionUsage } from "../config/usage";
+import { appendHistory, createHistoryId } from "../config/history";
+import { openSession, saveSession, type Session } from "../config/sessions";
+import { evaluateCommandSafety, type SafetyVerdict } from "../utils/safety";
+import { evaluateCommandPolicies } from "../utils/policies";
+import { formatRedactions, redactMessages } from "../utils/redact";
+import { resolvePipedInput } from "../utils/stdin";
+import {
+  collectFileContext,
+  collectValues,
+  describeFileContext,
+} from "../utils/file-context";
+import {
+  budgetOutput,
+  describeBudget,
+  outputBudgetChars,
+  type BudgetedOutput,
+} from "../utils/output-budget";
+import { getContextWindow } from "../config/providers";
+import { resolveSystemPrompt } from "../config/prompts";
+import {
+  generateStructured,
+  generateAIText,
+  describeModel,
+  modelAlias,
+} from "../config/ai";
 
 /**
  * Schema for command analysis response
@@ -77,6 +103,7 @@ enum CommandState {
   FAILED = "failed",
   SUCCESS = "success",
   ABORTED = "aborted",
+  DRY_RUN = "dry-run",
 }
 
 /**
@@ -126,6 +153,22 @@ interface CommandContext {
   autoApprove: boolean;
   jsonMode: boolean;
   abortedReason?: string;
+  // Reasons reported by the local safety rules when a command is blocked
+  safetyReasons?: string[];
+  // Reason reported by a command policy that denied or gated the command
+  policyReason?: string;
+  // Every command execution, in order (recorded in history)
+  executions: Array<{ command: string; exitCode: number }>;
+}
+
+/**
+ * A known command to run without asking the model (history re-runs)
+ */
+interface PresetCommand {
+  command: string;
+  needsInteractiveMode?: boolean;
+  /** History entry being re-run */
+  historyId?: string;
 }
 
 /**
@@ -139,6 +182,15 @@ class CommandExecutor {
   private autoApprove: boolean;
   private maxTries: number;
   private jsonMode: boolean;
+  private config: Config;
+  private dryRun: boolean;
+  private showRedactions: boolean;
+  private session?: Session;
+  private contextBlocks: string[];
+  // Piped stdin was read as input, so nothing can be typed at a prompt
+  private stdinConsumed: boolean;
+  // Redactions already reported, so history re-sent each turn isn't repeated
+  private reportedRedactions = new Set<string>();
 
   constructor(
     model: LanguageModel,
@@ -148,6 +200,12 @@ class CommandExecutor {
     autoApprove: boolean = false,
     maxTries: number = 3,
     jsonMode: boolean = false,
+    config: Config = { providers: [] },
+    dryRun: boolean = false,
+    showRedactions: boolean = false,
+    session?: Session,
+    contextBlocks: string[] = [],
+    stdinConsumed: boolean = false,
   ) {
     this.model = model;
     this.timeoutMs = timeoutMs;
@@ -156,27 +214,41 @@ class CommandExecutor {
     this.autoApprove = autoApprove;
     this.maxTries = maxTries;
     this.jsonMode = jsonMode;
+    this.config = config;
+    this.dryRun = dryRun;
+    this.showRedactions = showRedactions;
+    this.session = session;
+    this.contextBlocks = contextBlocks;
+    this.stdinConsumed = stdinConsumed;
   }
 
   /**
    * Main execution loop with state machine
    */
-  async execute(query: string): Promise<void> {
+  async execute(query: string, preset?: PresetCommand): Promise<void> {
+    const startedAt = Date.now();
     const context: CommandContext = {
       state: CommandState.ANALYZING,
       query,
       originalQuery: query,
-      conversationHistory: [],
+      // Named sessions carry context over from earlier runs
+      conversationHistory: [...(this.session?.messages || [])],
       attemptCount: 0,
       maxTries: this.maxTries,
       failures: [],
       autoApprove: this.autoApprove,
       jsonMode: this.jsonMode,
+      executions: [],
     };
 
+    if (preset) {
+      this.loadPresetCommand(context, preset);
+    }
+
     while (
       context.state !== CommandState.SUCCESS &&
-      context.state !== CommandState.ABORTED
+      context.state !== CommandState.ABORTED &&
+      context.state !== CommandState.DRY_RUN
     ) {
       try {
         await this.processState(context);
@@ -191,12 +263,23 @@ class CommandExecutor {
       }
     }
 
+    if (this.config.history?.enabled !== false) {
+      this.recordHistory(context, startedAt, preset?.historyId);
+    }
+    if (this.session) {
+      this.saveSessionTurn(context);
+    }
+
     // Emit JSON summary if requested
     if (context.jsonMode) {
+      // Provider that actually answered (may differ from the default when falling back)
+      const answeredBy = describeModel(this.model);
       const summary = {
         status: context.state,
         success: context.state === CommandState.SUCCESS,
         abortedReason: context.abortedReason,
+        safetyReasons: context.safetyReasons,
+        policyReason: context.policyReason,
         originalQuery: context.originalQuery,
         finalQuery: context.query,
         finalCommand:
@@ -204,6 +287,11 @@ class CommandExecutor {
           context.lastError?.command ||
           context.lastSuccess?.command,
         explanation: context.currentAnalysis?.explanation,
+        isDangerous: context.currentAnalysis?.isDangerous,
+        externalPackages: context.currentAnalysis?.externalPackages,
+        provider: answeredBy.provider,
+        model: answeredBy.model,
+        usage: getSessionUsage(),
         attempts: context.attemptCount,
         failures: context.failures.map((f) => ({
           command: f.command,
@@ -226,6 +314,128 @@ class CommandExecutor {
     }
   }
 
+  /**
+   * Start from a known command instead of asking the model for one
+   *
+   * The command still goes through the safety rules and the normal
+   * confirmation flow.
+   */
+  private loadPresetCommand(
+    context: CommandContext,
+    preset: PresetCommand,
+  ): void {
+    const analysis: CommandAnalysis = {
+      command: preset.command,
+      explanation: preset.historyId
+        ? `Re-run of history entry ${preset.historyId}`
+        : "Preset command",
+      isDangerous: false,
+      requiresExternalPackages: false,
+      needsInteractiveMode: preset.needsInteractiveMode || false,
+    };
+
+    context.currentAnalysis = analysis;
+    const safety = evaluateCommandSafety(analysis.command, this.config.safety);
+    this.displayCommandAnalysis(analysis, safety);
+
+    if (this.dryRun) {
+      this.reportDryRun(context, safety);
+      return;
+    }
+
+    if (safety.blocked) {
+      context.safetyReasons = safety.matches.map((m) => m.reason);
+      context.abortedReason = "safety-rule";
+      context.state = CommandState.ABORTED;
+      return;
+    }
+
+    context.state = CommandState.CONFIRMING;
+  }
+
+  /**
+   * Append the finished run to the history log
+   */
+  private recordHistory(
+    context: CommandContext,
+    startedAt: number,
+    rerunOf?: string,
+  ): void {
+    const lastExecution = context.executions[context.executions.length - 1];
+    // Only attribute the run to a model if one was actually called
+    const answeredBy =
+      getSessionUsage().requests > 0 ? describeModel(this.model) : undefined;
+
+    appendHistory({
+      id: createHistoryId(),
+      timestamp: new Date(startedAt).toISOString(),
+      query: context.originalQuery,
+      finalQuery:
+        context.query !== context.originalQuery ? context.query : undefined,
+      command: lastExecution?.command || context.currentAnalysis?.command,
+      interactive: context.currentAnalysis?.needsInteractiveMode || undefined,
+      status: context.state,
+      abortedReason: context.abortedReason,
+      exitCode: lastExecution ? lastExecution.exitCode : null,
+      attempts: context.executions.map((execution) => ({
+        ...execution,
+        explanation: context.failures.find(
+          (f) =>
+            f.command === execution.command &&
+            f.exitCode === execution.exitCode,
+        )?.explanation,
+      })),
+      cwd: process.cwd(),
+      provider: answeredBy?.provider,
+      model: answeredBy?.model,
+      durationMs: Date.now() - startedAt,
+      rerunOf,
+    });
+  }
+
+  /**
+   * Append the outcome of this run to the named session
+   */
+  private saveSessionTurn(context: CommandContext): void {
+    if (!this.session) return;
+
+    const messages = [...context.conversationHistory];
+    // The modify flow already recorded the latest request
+    const last = messages[messages.length - 1];
+    if (!(last?.role === "user" && last.content === context.query)) {
+      messages.push({ role: "user", content: `I want to: ${context.query}` });
+    }
+
+    const command =
+      context.currentAnalysis?.command || context.lastError?.command;
+    const outcome =
+      context.state === CommandState.SUCCESS
+        ? "It ran successfully."
+        : context.state === CommandState.DRY_RUN
+          ? "It was not executed (dry run)."
+          : `It did not complete (${context.abortedReason || "aborted"}).`;
+    messages.push({
+      role: "assistant",
+      content: command
+        ? `I suggested this command: ${command}\n\n${outcome}`
+        : outcome,
+    });
+
+    this.session.messages = messages;
+    Object.assign(this.session, describeModel(this.model));
+    try {
+      saveSession(this.session);
+    } catch (error) {
+      if (!this.jsonMode) {
+        console.log(
+          chalk.yellow(
+            `⚠️  Could not save session: ${error instanceof Error ? error.message : "unknown error"}`,
+          ),
+        );
+      }
+    }
+  }
+
   /**
    * Process current state and transition to next
    */
@@ -259,7 +469,22 @@ class CommandExecutor {
     );
 
     context.currentAnalysis = analysis;
-    this.displayCommandAnalysis(analysis);
+    const safety = evaluateCommandSafety(analysis.command, this.config.safety);
+    this.displayCommandAnalysis(analysis, safety);
+
+    // Dry runs report the verdict and stop before confirmation or execution
+    if (this.dryRun) {
+      this.reportDryRun(context, safety);
+      return;
+    }
+
+    // Deterministic rules take precedence over the model's own verdict
+    if (safety.blocked) {
+      context.safetyReasons = safety.matches.map((m) => m.reason);
+      context.abortedReason = "safety-rule";
+      context.state = CommandState.ABORTED;
+      return;
+    }
 
     if (analysis.isDangerous) {
       context.abortedReason = "dangerous-command";
@@ -270,6 +495,33 @@ class CommandExecutor {
     context.state = CommandState.CONFIRMING;
   }
 
+  /**
+   * Record and display what would happen to the analyzed command
+   */
+  private reportDryRun(context: CommandContext, safety: SafetyVerdict): void {
+    const command = context.currentAnalysis?.command || "";
+    const policy = evaluateCommandPolicies(command, this.config.policies);
+
+    if (safety.blocked) {
+      context.safetyReasons = safety.matches.map((m) => m.reason);
+    }
+    if (policy.action !== "prompt") {
+      context.policyReason = policy.reason;
+    }
+
+    if (!this.jsonMode) {
+      if (!safety.blocked && !context.currentAnalysis?.isDangerous) {
+        console.log(chalk.green("Safety: no issues found"));
+      }
+      if (policy.action !== "prompt") {
+        console.log(chalk.gray(`Policy (${policy.action}): ${policy.reason}`));
+      }
+      console.log(chalk.gray("\nDry run: the command was not executed."));
+    }
+
+    context.state = CommandState.DRY_RUN;
+  }
+
   /**
    * Handle user confirmation state
    */
@@ -280,6 +532,56 @@ class CommandExecutor {
       return;
     }
 
+    // Policies run before any approval; --yes never overrides a deny
+    const policy = evaluateCommandPolicies(
+      context.currentAnalysis.command,
+      this.config.policies,
+    );
+
+    if (policy.action === "deny") {
+      console.log(chalk.red(`\n🚫 [DENIED] ${policy.reason}`));
+      context.policyReason = policy.reason;
+      context.abortedReason = "policy-denied";
+      context.state = CommandState.ABORTED;
+      return;
+    }
+
+    if (policy.action === "confirm") {
+      context.policyReason = policy.reason;
+
+      // Typed confirmation cannot happen without a terminal
+      if (context.jsonMode || this.stdinConsumed) {
+        if (!context.jsonMode) {
+          console.log(
+            chalk.red(
+              `❌ Error: this command needs typed confirmation (${policy.reason}), but stdin is piped so it can't be answered. Run it again without piping input.`,
+            ),
+          );
+        }
+        context.abortedReason = "policy-confirmation-required";
+        context.state = CommandState.ABORTED;
+        return;
+      }
+
+      const confirmed = await this.promptTypedConfirmation(policy.reason);
+      if (!confirmed) {
+        context.abortedReason = context.abortedReason || "user-rejected";
+        context.state = CommandState.ABORTED;
+        return;
+      }
+
+      context.state = CommandState.EXECUTING;
+      return;
+    }
+
+    if (policy.action === "allow") {
+      if (!context.jsonMode) {
+        console.log(chalk.gray(`✓ Auto-approved: ${policy.reason}`));
+      }
+      context.state = CommandState.EXECUTING;
+      return;
+    }
+
     // Auto-approve path (non-interactive OR json mode)
     if (context.autoApprove || context.jsonMode) {
       context.state = CommandState.EXECUTING;
@@ -330,6 +632,11 @@ class CommandExecutor {
     // Reset sudo retry flag after use
     context.isSudoRetry = false;
 
+    context.executions.push({
+      command: context.currentAnalysis.command,
+      exitCode: result.exitCode,
+    });
+
     if (result.exitCode === 0) {
       // Record success output for JSON summary (especially when suppressed)
       context.lastSuccess = {
@@ -422,6 +729,23 @@ class CommandExecutor {
       }
     }
 
+    // sudo ran with -n because stdin is piped, and it wanted a password
+    if (
+      this.stdinConsumed &&
+      context.lastError.stderr.includes("a password is required")
+    ) {
+      if (!context.jsonMode) {
+        console.log(
+          chalk.red(
+            "\n❌ Error: sudo needs a password, but stdin is piped so it can't be asked for. Run it again without piping input.",
+          ),
+        );
+      }
+      context.abortedReason = "sudo-password-required";
+      context.state = CommandState.ABORTED;
+      return;
+    }
+
     // Handle other permission errors
     if (this.isPermissionError(context.lastError.stderr)) {
       console.log(
@@ -464,6 +788,19 @@ class CommandExecutor {
       }
 
       if (failureAnalysis.alternativeCommand) {
+        // Alternatives never pass through analysis, so check them here
+        const safety = evaluateCommandSafety(
+          failureAnalysis.alternativeCommand,
+          this.config.safety,
+        );
+        if (safety.blocked) {
+          this.displaySafetyBlock(safety);
+          context.safetyReasons = safety.matches.map((m) => m.reason);
+          context.abortedReason = "safety-rule";
+          context.state = CommandState.ABORTED;
+          return;
+        }
+
         // Update context for alternative command
         context.currentAnalysis = {
           ...context.currentAnalysis,
@@ -472,10 +809,8 @@ class CommandExecutor {
           needsInteractiveMode: failureAnalysis.needsInteractiveMode,
         };
 
-        // Auto-approve path skips confirmation
-        context.state = context.autoApprove
-          ? CommandState.EXECUTING
-          : CommandState.CONFIRMING;
+        // Confirmation applies policies and handles auto-approve
+        context.state = CommandState.CONFIRMING;
       } else {
         // Even without alternative command, allow user to modify unless autoApprove
         console.log(
@@ -512,6 +847,13 @@ class CommandExecutor {
     }
   }
 
+  /**
+   * System prompt for analysis calls: the configured role plus JSON rules
+   */
+  private commandSystemPrompt(): string {
+    return `${resolveSystemPrompt(this.config, "command", modelAlias(this.model))} You MUST respond with valid JSON only, no other text or formatting.`;
+  }
+
   /**
    * Analyze command with proper conversation context
    */
@@ -519,8 +861,7 @@ class CommandExecutor {
     query: string,
     conversationHistory: ModelMessage[],
   ): Promise<CommandAnalysis> {
-    const systemPrompt =
-      "You are a shell command expert. You MUST respond with valid JSON only, no other text or formatting.";
+    const systemPrompt = this.commandSystemPrompt();
 
     const userContent =
       conversationHistory.length > 0
@@ -529,16 +870,25 @@ class CommandExecutor {
 
     const environmentInfo = `Environment Context:\nOS: ${os.type()} ${os.release()} (${os.platform()} ${os.arch()})\nDate: ${new Date().toISOString().split('T')[0]}\nCWD: ${process.cwd()}\n\nInstructions:\n- Only propose commands valid for this OS.\n- Avoid Linux-specific /proc paths on macOS (darwin).\n- Prefer portable POSIX utilities when possible.\n- If the user's request is impossible without additional tools or privileges, still produce a safe explanatory command (e.g., an echo) and keep isDangerous=false.`;
 
-    const messages: ModelMessage[] = [
+    // Attached files and piped input go ahead of the request they belong to
+    const attachedContext = this.contextBlocks
+      .map((block) => block + "\n\n")
+      .join("");
+
+    const messages = this.redactMessages([
       ...conversationHistory,
-      { role: "user", content: environmentInfo + "\n\n" + userContent },
-    ];
+      {
+        role: "user",
+        content: environmentInfo + "\n\n" + attachedContext + userContent,
+      },
+    ]);
 
     // Suppress spinner in jsonMode for clean automation output
     const analysisPromise = generateStructured(this.model, {
       schema: CommandAnalysisSchema,
       system: systemPrompt,
       messages,
+      retry: this.config.retry,
     });
     const result = this.jsonMode
       ? await analysisPromise
@@ -561,23 +911,26 @@ class CommandExecutor {
   ): Promise<FailureAnalysis> {
     if (!error) throw new Error("No error to analyze");
 
-    const systemPrompt =
-      "You are a shell command expert. You MUST respond with valid JSON only, no other text or formatting.";
+    const systemPrompt = this.commandSystemPrompt();
 
-    const userPrompt = `A command failed with the following details:\n\nCommand: ${error.command}\nExit Code: ${error.exitCode}\nStandard Output: ${error.stdout || "(none)"}\nStandard Error: ${error.stderr || "(none)"}\nOriginal User Query: "${query}"\n\nBased on our conversation history (if any) and these details, analyze the failure.\n\nReturn a JSON object with these exact fields:\n{\n  "explanation": "brief explanation of why the command failed (1-2 sentences max)",\n  "solution": "how to fix the issue or what the user should do (1-2 sentences max)",\n  "alternativeCommand": "alternative command to try (or null ONLY if absolutely no alternative exists)",\n  "needsInteractiveMode": false\n}\n\nIMPORTANT: You should ALMOST ALWAYS provide an alternativeCommand that attempts to fulfill the user's original request. Look at the error message and suggest a command that will work. For example:\n- If a flag isn't recognized, suggest the command without that flag or with an equivalent\n- If permission denied, suggest with sudo or in a different directory\n- If a tool doesn't exist, suggest an alternative tool that achieves the same goal\n- If a file/directory doesn't exist, suggest creating it or using a different path\n\nOnly return null for alternativeCommand in cases where:\n- The user needs to install software first (but even then, try to suggest the install command)\n- The request is physically impossible (e.g., accessing hardware that doesn't exist)\n- The command requires user-specific information you don't have\n\nIMPORTANT: Set needsInteractiveMode to true ONLY if ALL of these conditions are met:\n1. The failure was clearly caused by missing TTY/terminal (errors like "not a terminal", "no tty", input/output redirection issues)\n2. The alternative command you're suggesting is an interactive program (vim, nano, htop, etc.)\n3. Double-check: Does this alternative command actually need TTY to function properly?\n\nIf you're unsure about ANY of these conditions, set needsInteractiveMode to false. Be extremely conservative.\n\nBe very concise and helpful. Keep explanations short. JSON only:`;
+    // Large outputs are cut down to fit the model's context window
+    const output = this.budgetCommandOutput(error.stdout, error.stderr);
+
+    const userPrompt = `A command failed with the following details:\n\nCommand: ${error.command}\nExit Code: ${error.exitCode}\nStandard Output${describeBudget(output.stdout)}: ${output.stdout.text || "(none)"}\nStandard Error${describeBudget(output.stderr)}: ${output.stderr.text || "(none)"}\nOriginal User Query: "${query}"\n\nBased on our conversation history (if any) and these details, analyze the failure.\n\nReturn a JSON object with these exact fields:\n{\n  "explanation": "brief explanation of why the command failed (1-2 sentences max)",\n  "solution": "how to fix the issue or what the user should do (1-2 sentences max)",\n  "alternativeCommand": "alternative command to try (or null ONLY if absolutely no alternative exists)",\n  "needsInteractiveMode": false\n}\n\nIMPORTANT: You should ALMOST ALWAYS provide an alternativeCommand that attempts to fulfill the user's original request. Look at the error message and suggest a command that will work. For example:\n- If a flag isn't recognized, suggest the command without that flag or with an equivalent\n- If permission denied, suggest with sudo or in a different directory\n- If a tool doesn't exist, suggest an alternative tool that achieves the same goal\n- If a file/directory doesn't exist, suggest creating it or using a different path\n\nOnly return null for alternativeCommand in cases where:\n- The user needs to install software first (but even then, try to suggest the install command)\n- The request is physically impossible (e.g., accessing hardware that doesn't exist)\n- The command requires user-specific information you don't have\n\nIMPORTANT: Set needsInteractiveMode to true ONLY if ALL of these conditions are met:\n1. The failure was clearly caused by missing TTY/terminal (errors like "not a terminal", "no tty", input/output redirection issues)\n2. The alternative command you're suggesting is an interactive program (vim, nano, htop, etc.)\n3. Double-check: Does this alternative command actually need TTY to function properly?\n\nIf you're unsure about ANY of these conditions, set needsInteractiveMode to false. Be extremely conservative.\n\nBe very concise and helpful. Keep explanations short. JSON only:`;
 
     const failureEnvInfo = `Environment Context:\nOS: ${os.type()} ${os.release()} (${os.platform()} ${os.arch()})\nDate: ${new Date().toISOString().split('T')[0]}\nCWD: ${process.cwd()}\n\nValidation Rules:\n- Suggest only commands valid for this OS.\n- Avoid Linux-specific /proc paths on macOS.\n- If hardware metrics or privileged data are requested and unavailable without new tools, return alternativeCommand null with a concise explanation unless a standard built-in utility suffices.\n- Prefer safe existence checks (test -f, test -d) before operations.\n- Never hallucinate files or system paths.`;
 
-    const messages: ModelMessage[] = [
+    const messages = this.redactMessages([
       ...conversationHistory,
       { role: "user", content: failureEnvInfo + "\n\n" + userPrompt },
-    ];
+    ]);
 
     // Suppress spinner in jsonMode
     const failurePromise = generateStructured(this.model, {
       schema: FailureAnalysisSchema,
       system: systemPrompt,
       messages,
+      retry: this.config.retry,
     });
     const result = this.jsonMode
       ? await failurePromise
@@ -585,18 +938,18 @@ class CommandExecutor {
 
     if (!result.data) {
       // Fallback to plain text analysis
-      const fallbackMessages: ModelMessage[] = [
+      const fallbackMessages = this.redactMessages([
         ...conversationHistory,
         {
           role: "user",
-          content: `${failureEnvInfo}\n\nA command failed: ${error.command}\nExit Code: ${error.exitCode}\nError: ${error.stderr}\nOriginal user query: "${query}"\n\nBriefly explain why it failed and how to fix it (1-2 sentences max).`,
+          content: `${failureEnvInfo}\n\nA command failed: ${error.command}\nExit Code: ${error.exitCode}\nError${describeBudget(output.stderr)}: ${output.stderr.text}\nOriginal user query: "${query}"\n\nBriefly explain why it failed and how to fix it (1-2 sentences max).`,
         },
-      ];
+      ]);
 
       const plainText = await generateAIText(this.model, {
-        system:
-          "You are a shell command expert. Analyze command failures and provide helpful explanations and solutions.",
+        system: `${resolveSystemPrompt(this.config, "command", modelAlias(this.model))} Analyze command failures and provide helpful explanations and solutions.`,
         messages: fallbackMessages,
+        retry: this.config.retry,
       });
 
       return {
@@ -610,6 +963,49 @@ class CommandExecutor {
     return result.data;
   }
 
+  /**
+   * Fit stdout and stderr of a failed command into the model's output budget
+   *
+   * Stderr usually explains the failure, so stdout gets at most 40% of the
+   * budget and stderr the remainder.
+   */
+  private budgetCommandOutput(
+    stdout: string,
+    stderr: string,
+  ): { stdout: BudgetedOutput; stderr: BudgetedOutput } {
+    const { provider, model } = describeModel(this.model);
+    const total = outputBudgetChars(getContextWindow(provider, model));
+    const stdoutBudget = stderr ? Math.floor(total * 0.4) : total;
+    const budgetedStdout = budgetOutput(stdout, stdoutBudget);
+
+    return {
+      stdout: budgetedStdout,
+      stderr: budgetOutput(stderr, total - budgetedStdout.text.length),
+    };
+  }
+
+  /**
+   * Mask secrets in messages before they are sent to the model
+   */
+  private redactMessages(messages: ModelMessage[]): ModelMessage[] {
+    const result = redactMessages(messages, this.config.redaction);
+
+    if (this.showRedactions && !this.jsonMode) {
+      const lines = formatRedactions(result.redactions).filter(
+        (line) => !this.reportedRedactions.has(line),
+      );
+      if (lines.length > 0) {
+        console.log(chalk.yellow(`🔒 Redacted before sending:`));
+        for (const line of lines) {
+          this.reportedRedactions.add(line);
+          console.log(chalk.gray(`  • ${line}`));
+        }
+      }
+    }
+
+    return result.messages;
+  }
+
   /**
    * Authenticate sudo using sudo -v
    */
@@ -676,7 +1072,18 @@ class CommandExecutor {
     const hasSudo = /\bsudo\b/.test(command);
     let sudoPassword: string | undefined;
 
-    if (hasSudo && !needsInteractiveMode) {
+    if (hasSudo && this.stdinConsumed) {
+      // The password prompt would read the already-consumed stdin, so sudo
+      // only runs with cached credentials or NOPASSWD rules
+      if (!this.jsonMode) {
+        console.log(
+          chalk.yellow(
+            "⚠️  stdin is piped, so sudo can't ask for a password; running it with sudo -n",
+          ),
+        );
+      }
+      command = command.replace(/\bsudo\b/g, "sudo -n");
+    } else if (hasSudo && !needsInteractiveMode) {
       // Prompt for password before executing
       const promptMessage = isSudoRetry
         ? "Enter sudo password (retry):"
@@ -871,6 +1278,18 @@ class CommandExecutor {
     return { type: UserAction.REJECT };
   }
 
+  /**
+   * Prompt for typed confirmation required by a command policy
+   */
+  private async promptTypedConfirmation(reason?: string): Promise<boolean> {
+    console.log(chalk.yellow(`\n⚠️  Confirmation required: ${reason}`));
+    const response = await input({
+      message: 'Type "yes" to run this command:',
+    });
+
+    return response.trim().toLowerCase() === "yes";
+  }
+
   /**
    * Update conversation history with user modification
    */
@@ -908,9 +1327,11 @@ class CommandExecutor {
   ): void {
     if (!context.lastError || !context.currentAnalysis) return;
 
+    // History is re-sent on every turn, so keep only an excerpt of the error
+    const { stderr } = this.budgetCommandOutput("", context.lastError.stderr);
     const failureMessage = failureAnalysis.alternativeCommand
-      ? `The command failed with exit code ${context.lastError.exitCode}. Error: ${context.lastError.stderr}\n\nI suggest this alternative: ${failureAnalysis.alternativeCommand}\n\nExplanation: ${failureAnalysis.explanation}`
-      : `The command failed with exit code ${context.lastError.exitCode}. Error: ${context.lastError.stderr}\n\nExplanation: ${failureAnalysis.explanation}\n\nSolution: ${failureAnalysis.solution}`;
+      ? `The command failed with exit code ${context.lastError.exitCode}. Error: ${stderr.text}\n\nI suggest this alternative: ${failureAnalysis.alternativeCommand}\n\nExplanation: ${failureAnalysis.explanation}`
+      : `The command failed with exit code ${context.lastError.exitCode}. Error: ${stderr.text}\n\nExplanation: ${failureAnalysis.explanation}\n\nSolution: ${failureAnalysis.solution}`;
 
     context.conversationHistory.push(
       {
@@ -927,12 +1348,15 @@ class CommandExecutor {
   /**
    * Display command analysis
    */
-  private displayCommandAnalysis(analysis: CommandAnalysis): void {
+  private displayCommandAnalysis(
+    analysis: CommandAnalysis,
+    safety: SafetyVerdict,
+  ): void {
     // In jsonMode we suppress ALL non-JSON output
     if (!this.jsonMode) {
       console.log(chalk.cyan(analysis.command));
 
-      if (this.verbose) {
+      if (this.verbose || this.dryRun) {
         console.log(chalk.gray(`\n${analysis.explanation}`));
 
         if (
@@ -947,7 +1371,9 @@ class CommandExecutor {
         }
       }
 
-      if (analysis.isDangerous) {
+      if (safety.blocked) {
+        this.displaySafetyBlock(safety);
+      } else if (analysis.isDangerous) {
         console.log(
           chalk.red(
             "[BLOCKED] This command is potentially dangerous and cannot be executed.",
@@ -957,6 +1383,17 @@ class CommandExecutor {
     }
   }
 
+  /**
+   * Display why the local safety rules blocked a command
+   */
+  private displaySafetyBlock(safety: SafetyVerdict): void {
+    if (this.jsonMode) return;
+
+    for (const match of safety.matches) {
+      console.log(chalk.red(`[BLOCKED] ${match.reason} (rule: ${match.rule})`));
+    }
+  }
+
   /**
    * Display failure analysis
    */
@@ -1000,6 +1437,12 @@ export async function handleCommandGeneration(
   autoApprove: boolean = false,
   maxTries: number = 3,
   jsonMode: boolean = false,
+  config: Config = { providers: [] },
+  dryRun: boolean = false,
+  showRedactions: boolean = false,
+  session?: Session,
+  contextBlocks: string[] = [],
+  stdinConsumed: boolean = false,
 ): Promise<void> {
   const timeoutMs = timeoutSeconds ? timeoutSeconds * 1000 : undefined;
   const executor = new CommandExecutor(
@@ -1010,6 +1453,12 @@ export async function handleCommandGeneration(
     autoApprove,
     maxTries,
     jsonMode,
+    config,
+    dryRun,
+    showRedactions,
+    session,
+    contextBlocks,
+    stdinConsumed,
   );
   await executor.execute(query);
 }
@@ -1023,8 +1472,8 @@ export function setupCommandCommand(program: Command): void {
     .alias("c")
     .description("Generate and execute shell commands using AI")
     .argument(
-      "<query...>",
-      "natural language description of what you want to do",
+      "[query...]",
+      "natural language description of what you want to do (use - to read stdin explicitly)",
     )
     .option(
       "-t, --timeout <seconds>",
@@ -1042,10 +1491,18 @@ export function setupCommandCommand(program: Command): void {
       "--max-tries <n>",
       "maximum failed attempts before aborting (default 3)",
     )
+    .option("--dry-run", "analyze and print the command without executing it")
+    .option("--show-redactions", "show which secrets were masked before sending")
+    .option("--session <name>", "continue a named conversation and save this run to it")
+    .option("--file <path>", "attach a file as context (repeatable)", collectValues)
+    .option(
+      "--context <glob>",
+      "attach files matching a glob, respecting .gitignore (repeatable)",
+      collectValues,
+    )
     .option("--json", "output final result summary as JSON (suppresses all non-JSON output and implies --yes)")
     .allowUnknownOption()
     .action(async (queryParts, options) => {
-      const query = queryParts.join(" ");
       const timeoutSeconds = options.timeout
         ? parseInt(options.timeout)
         : undefined;
@@ -1054,18 +1511,55 @@ export function setupCommandCommand(program: Command): void {
       let autoApprove = options.yes || false;
       const maxTries = options.maxTries ? parseInt(options.maxTries) : 3;
       const jsonMode = options.json || false;
+      const dryRun = options.dryRun || false;
       if (jsonMode) {
         autoApprove = true; // JSON mode implies non-interactive approval
       }
 
       try {
-        const config = loadConfig();
+        const { query, context, notice, consumedStdin } =
+          await resolvePipedInput(queryParts);
+        if (!query) {
+          console.log(chalk.red("❌ Error: missing query"));
+          return;
+        }
+        // Piped stdin is used up, so confirmation prompts can't be answered
+        if (consumedStdin && !autoApprove && !dryRun) {
+          console.log(
+            chalk.red(
+              "❌ Error: stdin is piped, so prompts can't be answered. Add -y to run without confirmation, or --dry-run to only print the command.",
+            ),
+          );
+          return;
+        }
+        if (notice && !jsonMode) {
+          console.log(chalk.yellow(`⚠️  ${notice}`));
+        }
+
+        const config = loadEffectiveConfig();
         const { createModelWithOverride } = await import("../config/ai");
         const model = createModelWithOverride(
           config,
           options.provider,
           options.model,
         );
+
+        const { provider, model: modelName } = describeModel(model);
+        const fileContext = collectFileContext(
+          options.file || [],
+          options.context || [],
+          getContextWindow(provider, modelName),
+        );
+        if (!jsonMode) {
+          const { attached, warnings } = describeFileContext(fileContext);
+          for (const line of attached) {
+            console.log(chalk.gray(`📎 ${line}`));
+          }
+          for (const line of warnings) {
+            console.log(chalk.yellow(`⚠️  ${line}`));
+          }
+        }
+
         await handleCommandGeneration(
           model,
           query,
@@ -1075,6 +1569,12 @@ export function setupCommandCommand(program: Command): void {
           autoApprove,
           maxTries,
           jsonMode,
+          config,
+          dryRun,
+          options.showRedactions || false,
+          options.session ? openSession(options.session) : undefined,
+          [...fileContext.blocks, ...(context ? [context] : [])],
+          consumedStdin,
         );
       } catch (error) {
         console.log(
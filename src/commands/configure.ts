@@ -12,34 +12,125 @@ import { ExitPromptError } from "@inquirer/core";
 import { Command } from "commander";
 import { PROVIDERS } from "../config/providers";
 import {
+  loadProjectConfig,
+  type LoadedProjectConfig,
+} from "../config/project";
+import {
+  apiKeyEnvNames,
+  describeApiKey,
+  findApiKeySource,
+  missingApiKeyHint,
+} from "../config/credentials";
+import {
+  migrateSecrets,
+  vaultKeyFile,
+  VAULT_PASSPHRASE_ENV,
+} from "../config/vault";
+import {
+  DEFAULT_PROFILE,
+  listProfiles,
+  loadProfileConfig,
+  PROFILE_ENV,
+  resolveProfileName,
+  updateProfileConfig,
+  useProfile,
+  type ProfileSource,
+} from "../config/profiles";
+import { existsSync } from "fs";
+import {
+  checkConfigFile,
+  checkConfigPermissions,
+  CONFIG_FILE,
   loadConfig,
   saveConfig,
   addProvider,
+  findProvider,
   removeProvider,
   setDefaultProvider,
-  maskApiKey,
+  setFallbackProviders,
+  uniqueAlias,
   type ProviderConfig,
   type Config,
 } from "../config/config";
+import { CONFIG_VERSION } from "../config/migrations";
+import {
+  BACKUP_DIR,
+  findConfigBackup,
+  listConfigBackups,
+  restoreConfigBackup,
+  withConfigLock,
+  writeFileAtomic,
+  type ConfigBackup,
+} from "../config/storage";
+import {
+  applyImport,
+  CONFLICT_STRATEGIES,
+  exportProfile,
+  importedProviders,
+  keepsLocalKey,
+  KEY_MODES,
+  newBaseUrls,
+  newKeyCommands,
+  planImport,
+  readExportFile,
+  type ConflictStrategy,
+  type ImportStep,
+  type KeyMode,
+} from "../config/portable";
+import { ALIAS_PATTERN, formatConfigIssue } from "../config/schema";
 
 /**
  * Command-line options for the configure command
  */
 export interface ConfigureOptions {
-  /** Provider name to configure */
+  /** Provider name to configure (or the alias of an existing entry) */
   provider?: string;
+  /** Alias of the entry to add or update (defaults to the provider name) */
+  alias?: string;
   /** Model name to use */
   model?: string;
   /** API key for authentication */
   apiKey?: string;
-  /** Update model for existing provider (format: provider:model) */
+  /** Shell command that prints the API key */
+  apiKeyCommand?: string;
+  /** Base URL for local / OpenAI-compatible providers */
+  baseUrl?: string;
+  /** Update model for existing provider (format: alias:model) */
   updateModel?: string;
-  /** Provider name to set as default */
+  /** Alias of the provider to set as default */
   setDefault?: string;
-  /** Provider name to remove */
+  /** Alias of the provider to remove */
   remove?: string;
   /** Whether to list all configured providers */
   list?: boolean;
+  /** Ordered fallback aliases (comma-separated on the CLI, empty to clear) */
+  fallback?: string | string[];
+}
+
+/**
+ * Options for `aish config export`
+ */
+interface ExportOptions {
+  /** How stored API keys are written (strip, mask or encrypt) */
+  keys?: string;
+  /** Overwrite an existing file */
+  force?: boolean;
+}
+
+/**
+ * Options for `aish config import`
+ */
+interface ImportOptions {
+  /** What to do with aliases that are already configured */
+  onConflict?: string;
+  /** Make the file's default provider the profile's default */
+  makeDefault?: boolean;
+  /** Don't ask; apply onConflict to every conflict */
+  nonInteractive?: boolean;
+  /** Accept apiKeyCommands from the file without asking */
+  allowKeyCommands?: boolean;
+  /** Accept base URLs of cloud providers from the file without asking */
+  allowBaseUrls?: boolean;
 }
 
 /**
@@ -61,14 +152,27 @@ export function setupConfigCommand(program: Command): void {
     )
     // Script-friendly root flags (non-interactive usage)
     .option("--provider <provider>", "AI provider name")
+    .option(
+      "--alias <name>",
+      "name for the entry, to add several accounts of one provider",
+    )
     .option("--model <model>", "Model name")
     .option("--api-key <key>", "API key")
     .option(
-      "--update-model <provider:model>",
-      "Update model for provider (format: provider:model)",
+      "--api-key-command <command>",
+      "shell command that prints the API key (e.g. \"pass show openai\")",
+    )
+    .option("--base-url <url>", "Base URL for local providers")
+    .option(
+      "--update-model <alias:model>",
+      "Update model for provider (format: alias:model)",
+    )
+    .option("--set-default <alias>", "Set default provider")
+    .option("--remove <alias>", "Remove provider")
+    .option(
+      "--fallback <providers>",
+      "Comma-separated fallback order (e.g. groq,openai,ollama)",
     )
-    .option("--set-default <provider>", "Set default provider")
-    .option("--remove <provider>", "Remove provider")
     .option("--list", "List configured providers")
     .action(async (options: any) => {
       await configureCommand(options);
@@ -78,72 +182,328 @@ export function setupConfigCommand(program: Command): void {
     .command("show")
     .description("Show current configuration")
     .action(() => {
-      const config = loadConfig();
+      const config = loadActiveProfile();
+      if (!config) {
+        return;
+      }
 
+      showActiveProfile();
       if (config.providers.length === 0) {
         console.log(
           chalk.yellow(
             "No configuration found. Run 'aish config' to get started.",
           ),
         );
+        showProjectConfiguration();
         return;
       }
 
       console.log(chalk.bold("Current Configuration:"));
 
       config.providers.forEach((provider, index) => {
-        const isDefault = provider.provider === config.defaultProvider;
+        const isDefault = provider.alias === config.defaultProvider;
         const prefix = isDefault ? chalk.green("✓ [DEFAULT]") : "  ";
 
-        console.log(`${prefix} ${chalk.bold(provider.provider)}`);
+        console.log(`${prefix} ${chalk.bold(formatEntry(provider))}`);
         console.log(
           `    Preferred Model: ${chalk.gray(provider.preferredModel)}`,
         );
-        console.log(`    API Key: ${chalk.gray(maskApiKey(provider.apiKey))}`);
+        if (provider.baseUrl) {
+          console.log(`    Base URL: ${chalk.gray(provider.baseUrl)}`);
+        }
+        if (
+          findApiKeySource(provider) ||
+          !PROVIDERS[provider.provider]?.local
+        ) {
+          console.log(`    API Key: ${chalk.gray(describeApiKey(provider))}`);
+        }
 
         if (index < config.providers.length - 1) {
           console.log("");
         }
       });
+
+      if (config.fallbackProviders?.length) {
+        console.log(
+          `\nFallback Order: ${chalk.gray(config.fallbackProviders.join(" → "))}`,
+        );
+      }
+
+      showProjectConfiguration();
+      showPermissionWarnings();
     });
 
   configCmd
     .command("add")
     .description("Add a new AI provider")
     .option("--provider <provider>", "AI provider name")
+    .option(
+      "--alias <name>",
+      "name for the entry, to add several accounts of one provider",
+    )
     .option("--model <model>", "Model name")
     .option("--api-key <key>", "API key")
+    .option(
+      "--api-key-command <command>",
+      "shell command that prints the API key (e.g. \"pass show openai\")",
+    )
+    .option("--base-url <url>", "Base URL for local providers")
     .action(async (options: any) => {
       await configureCommand(options);
     });
 
   configCmd
-    .command("remove <provider>")
+    .command("use [profile]")
+    .description("Switch the active profile, creating it if needed (lists profiles without an argument)")
+    .action((profile?: string) => {
+      try {
+        const config = loadConfig();
+        if (!profile) {
+          const { name, source } = resolveProfileName(config);
+          for (const candidate of listProfiles(config)) {
+            const count =
+              candidate === DEFAULT_PROFILE
+                ? config.providers.length
+                : config.profiles?.[candidate]?.providers.length || 0;
+            console.log(
+              `${candidate === name ? chalk.green("✓") : " "} ${chalk.bold(candidate)} ${chalk.gray(`(${count} provider(s))`)}`,
+            );
+          }
+          if (source === "flag" || source === "env") {
+            console.log(
+              chalk.gray(`\nActive for this run via ${describeProfileSource(source)}.`),
+            );
+          }
+          return;
+        }
+
+        const created = withConfigLock(() =>
+          useProfile(loadConfig(), profile),
+        );
+        console.log(
+          chalk.green(
+            created
+              ? `✅ Created profile ${profile} and made it active`
+              : `✅ Now using profile ${profile}`,
+          ),
+        );
+        if (created) {
+          console.log(
+            chalk.gray("   Add its providers with: aish config add"),
+          );
+        }
+        if (process.env[PROFILE_ENV] && process.env[PROFILE_ENV] !== profile) {
+          console.log(
+            chalk.yellow(
+              `⚠️  ${PROFILE_ENV}=${process.env[PROFILE_ENV]} overrides this in the current shell`,
+            ),
+          );
+        }
+      } catch (error) {
+        console.log(
+          chalk.red(
+            `❌ Error: ${error instanceof Error ? error.message : "Unknown error occurred"}`,
+          ),
+        );
+        process.exitCode = 1;
+      }
+    });
+
+  configCmd
+    .command("migrate-secrets")
+    .description("Encrypt the API keys stored in auth.json with the credential vault")
+    .option("--passphrase", "derive the encryption key from a passphrase")
+    .option("--key-file", "use a random key in ~/.config/aish/vault.key (default)")
+    .action((options: { passphrase?: boolean; keyFile?: boolean }) => {
+      try {
+        const { mode, count } = withConfigLock(() => {
+          const config = loadConfig();
+          const mode = options.passphrase
+            ? "passphrase"
+            : options.keyFile
+              ? "keyfile"
+              : config.vault?.mode || "keyfile";
+          const count = migrateSecrets(config, mode);
+          if (count > 0) {
+            saveConfig(config);
+          }
+          return { mode, count };
+        });
+        if (count === 0) {
+          console.log(chalk.yellow("No stored API keys to encrypt."));
+          return;
+        }
+
+        console.log(
+          chalk.green(
+            `✅ Encrypted ${count} API key(s) with ${mode === "passphrase" ? "your passphrase" : vaultKeyFile()}`,
+          ),
+        );
+        if (mode === "passphrase") {
+          console.log(
+            chalk.gray(
+              `   aish will ask for it when a key is needed (or set ${VAULT_PASSPHRASE_ENV}).`,
+            ),
+          );
+        }
+      } catch (error) {
+        console.log(
+          chalk.red(
+            `❌ Error: ${error instanceof Error ? error.message : "Unknown error occurred"}`,
+          ),
+        );
+        process.exitCode = 1;
+      }
+    });
+
+  configCmd
+    .command("remove <alias>")
     .description("Remove an AI provider")
     .action(async (provider: string) => {
       await configureCommand({ remove: provider });
     });
 
   configCmd
-    .command("default <provider>")
+    .command("default <alias>")
     .description("Set default AI provider")
     .action(async (provider: string) => {
       await configureCommand({ setDefault: provider });
     });
 
   configCmd
-    .command("update <provider:model>")
-    .description("Update model for existing provider (format: provider:model)")
+    .command("update <alias:model>")
+    .description("Update model for existing provider (format: alias:model)")
     .action(async (updateModel: string) => {
       await configureCommand({ updateModel });
     });
+
+  configCmd
+    .command("validate [file]")
+    .description(
+      "Check auth.json (or another config file) and the project config for errors",
+    )
+    .action((file?: string) => {
+      validateConfiguration(file);
+    });
+
+  configCmd
+    .command("restore [backup]")
+    .description(
+      "Roll auth.json back to a backup (number, file name or path; asks without an argument)",
+    )
+    .option("--list", "list the backups without restoring")
+    .action(async (backup: string | undefined, options: { list?: boolean }) => {
+      try {
+        // `config` has a --list of its own, which takes the flag first
+        const list = options.list || configCmd.opts().list || false;
+        await restoreConfiguration(backup, list);
+      } catch (error) {
+        if (error instanceof ExitPromptError) {
+          console.log(chalk.yellow("\n\n👋 Restore cancelled."));
+          return;
+        }
+        console.log(
+          chalk.red(
+            `❌ Error: ${error instanceof Error ? error.message : "Unknown error occurred"}`,
+          ),
+        );
+        process.exitCode = 1;
+      }
+    });
+
+  configCmd
+    .command("export [file]")
+    .description(
+      "Write the active profile's providers to a file for teammates (stdout without a file)",
+    )
+    .option(
+      "--keys <mode>",
+      "stored API keys: strip, mask or encrypt (with a passphrase; default strip)",
+    )
+    .option("--force", "overwrite an existing file")
+    .action((file: string | undefined, options: ExportOptions) => {
+      try {
+        exportConfiguration(file, options);
+      } catch (error) {
+        console.log(
+          chalk.red(
+            `❌ Error: ${error instanceof Error ? error.message : "Unknown error occurred"}`,
+          ),
+        );
+        process.exitCode = 1;
+      }
+    });
+
+  configCmd
+    .command("import <file>")
+    .description(
+      "Merge providers from an exported file into the active profile",
+    )
+    .option(
+      "--on-conflict <strategy>",
+      "for aliases you already have: keep, replace or rename (default keep)",
+    )
+    .option("--make-default", "make the file's default provider yours")
+    .option(
+      "--non-interactive",
+      "apply --on-conflict without asking (for provisioning scripts)",
+    )
+    .option(
+      "--allow-key-commands",
+      "accept the file's apiKeyCommands without asking (they run in a shell)",
+    )
+    .option(
+      "--allow-base-urls",
+      "accept the file's servers for cloud providers without asking (they receive your API key)",
+    )
+    .action(async (file: string, options: ImportOptions) => {
+      try {
+        await importConfiguration(file, options);
+      } catch (error) {
+        if (error instanceof ExitPromptError) {
+          console.log(chalk.yellow("\n\n👋 Import cancelled."));
+          return;
+        }
+        console.log(
+          chalk.red(
+            `❌ Error: ${error instanceof Error ? error.message : "Unknown error occurred"}`,
+          ),
+        );
+        process.exitCode = 1;
+      }
+    });
+
+  configCmd
+    .command("fallback [providers...]")
+    .description(
+      "Set the ordered providers to try when the selected one fails",
+    )
+    .option("--clear", "remove the fallback chain")
+    .action(async (providers: string[], options: { clear?: boolean }) => {
+      if (!options.clear && providers.length === 0) {
+        const config = loadActiveProfile();
+        if (!config) {
+          return;
+        }
+        console.log(
+          config.fallbackProviders?.length
+            ? `Fallback Order: ${chalk.gray(config.fallbackProviders.join(" → "))}`
+            : chalk.yellow("No fallback providers configured."),
+        );
+        return;
+      }
+      await configureCommand({ fallback: options.clear ? [] : providers });
+    });
 }
 
 export async function configureCommand(
   options?: ConfigureOptions,
 ): Promise<void> {
   try {
-    const config = loadConfig();
+    const config = loadActiveProfile();
+    if (!config) {
+      return;
+    }
 
     // Handle command-line options first
     if (options) {
@@ -167,7 +527,25 @@ export async function configureCommand(
         return;
       }
 
-      if (options.provider || options.model || options.apiKey) {
+      if (options.fallback !== undefined) {
+        const names = Array.isArray(options.fallback)
+          ? options.fallback
+          : options.fallback.split(",");
+        await handleSetFallbackProviders(
+          config,
+          names.map((name) => name.trim()).filter(Boolean),
+        );
+        return;
+      }
+
+      if (
+        options.provider ||
+        options.alias ||
+        options.model ||
+        options.apiKey ||
+        options.apiKeyCommand ||
+        options.baseUrl
+      ) {
         await handleCliConfiguration(config, options);
         return;
       }
@@ -181,80 +559,702 @@ export async function configureCommand(
       return;
     }
 
-    // Interactive menu for existing configurations
-    await showInteractiveMenu(config);
-  } catch (error: unknown) {
-    // Handle Ctrl+C gracefully
-    if (error instanceof ExitPromptError) {
-      console.log(chalk.yellow("\n\n👋 Configuration cancelled."));
-      process.exit(0);
+    // Interactive menu for existing configurations
+    await showInteractiveMenu(config);
+  } catch (error: unknown) {
+    // Handle Ctrl+C gracefully
+    if (error instanceof ExitPromptError) {
+      console.log(chalk.yellow("\n\n👋 Configuration cancelled."));
+      process.exit(0);
+    }
+    // e.g. another aish process holding the config lock
+    console.log(
+      chalk.red(
+        `❌ Error: ${error instanceof Error ? error.message : "Unknown error occurred"}`,
+      ),
+    );
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Shows the interactive configuration menu
+ *
+ * @param config - Current configuration
+ */
+async function showInteractiveMenu(config: Config): Promise<void> {
+  const action = await select({
+    message: "What would you like to do?",
+    choices: [
+      { name: "View current configuration", value: "view" },
+      { name: "Add new provider", value: "add" },
+      { name: "Remove provider", value: "remove" },
+      { name: "Set default provider", value: "default" },
+      { name: "Update existing provider", value: "update" },
+    ],
+  });
+
+  switch (action) {
+    case "view":
+      showConfiguration(config);
+      break;
+    case "add":
+      await addNewProvider(config);
+      break;
+    case "remove":
+      await removeProviderInteractive(config);
+      break;
+    case "default":
+      await setDefaultProviderInteractive(config);
+      break;
+    case "update":
+      await updateProviderInteractive(config);
+      break;
+  }
+}
+
+/**
+ * Displays the current configuration in a formatted way
+ *
+ * @param config - Configuration to display
+ */
+function showConfiguration(config: Config): void {
+  console.log(chalk.bold("\nCurrent Configuration:"));
+  showActiveProfile();
+
+  if (config.providers.length === 0) {
+    console.log(chalk.yellow("No providers configured."));
+    showProjectConfiguration();
+    return;
+  }
+
+  config.providers.forEach((provider: ProviderConfig, index: number) => {
+    const isDefault = provider.alias === config.defaultProvider;
+    const prefix = isDefault ? chalk.green("✓ [DEFAULT]") : "  ";
+
+    console.log(`${prefix} ${chalk.bold(formatEntry(provider))}`);
+    console.log(`    Preferred Model: ${chalk.gray(provider.preferredModel)}`);
+    if (provider.baseUrl) {
+      console.log(`    Base URL: ${chalk.gray(provider.baseUrl)}`);
+    }
+    if (findApiKeySource(provider) || !PROVIDERS[provider.provider]?.local) {
+      console.log(`    API Key: ${chalk.gray(describeApiKey(provider))}`);
+    }
+
+    if (index < config.providers.length - 1) {
+      console.log("");
+    }
+  });
+
+  if (config.fallbackProviders?.length) {
+    console.log(
+      `\nFallback Order: ${chalk.gray(config.fallbackProviders.join(" → "))}`,
+    );
+  }
+
+  showProjectConfiguration();
+  showPermissionWarnings();
+}
+
+/**
+ * Labels a provider entry with its alias, and its provider type when they differ
+ */
+function formatEntry(provider: ProviderConfig): string {
+  return provider.alias === provider.provider
+    ? provider.alias
+    : `${provider.alias} [${provider.provider}]`;
+}
+
+/**
+ * Loads the active profile's configuration
+ *
+ * @returns undefined (after printing the error) if the profile doesn't exist
+ */
+function loadActiveProfile(): Config | undefined {
+  try {
+    return loadProfileConfig();
+  } catch (error) {
+    console.log(
+      chalk.red(
+        `❌ ${error instanceof Error ? error.message : "Unknown error occurred"}`,
+      ),
+    );
+    process.exitCode = 1;
+    return undefined;
+  }
+}
+
+/**
+ * Describes how the active profile was selected
+ */
+function describeProfileSource(source: ProfileSource): string {
+  switch (source) {
+    case "flag":
+      return "--profile";
+    case "env":
+      return `$${PROFILE_ENV}`;
+    case "config":
+      return "aish config use";
+    default:
+      return "default";
+  }
+}
+
+/**
+ * Validates a config file and the project config, printing every problem
+ *
+ * Sets a non-zero exit code when a file has errors; unknown settings and
+ * pending migrations are only reported.
+ *
+ * @param file - File to check instead of ~/.config/aish/auth.json
+ */
+function validateConfiguration(file?: string): void {
+  const path = file || CONFIG_FILE;
+  if (!existsSync(path)) {
+    if (file) {
+      console.log(chalk.red(`❌ ${path} does not exist.`));
+      process.exitCode = 1;
+    } else {
+      console.log(
+        chalk.yellow(
+          `No configuration found at ${path}. Run 'aish config' to get started.`,
+        ),
+      );
+    }
+  } else {
+    const { validation, from, applied } = checkConfigFile(path);
+    if (validation.config) {
+      const profiles = Object.keys(validation.config.profiles || {}).length;
+      console.log(
+        chalk.green(
+          `✅ ${path} is valid (version ${CONFIG_VERSION}, ${validation.config.providers.length} provider(s)${profiles ? `, ${profiles} profile(s)` : ""})`,
+        ),
+      );
+    } else {
+      console.log(chalk.red(`❌ ${path} is invalid:`));
+      for (const error of validation.errors) {
+        console.log(chalk.red(`   • ${formatConfigIssue(error)}`));
+      }
+      process.exitCode = 1;
+    }
+    for (const warning of validation.warnings) {
+      console.log(chalk.yellow(`⚠️  ${formatConfigIssue(warning)}`));
+    }
+    if (validation.config && from < CONFIG_VERSION) {
+      console.log(
+        chalk.gray(
+          `   Written as version ${from}; aish migrates it to ${CONFIG_VERSION} on the next run${applied.length ? ` (${applied.join(", ")})` : ""}.`,
+        ),
+      );
+    }
+  }
+
+  // The project file only applies to the user's own config
+  if (file) {
+    return;
+  }
+  try {
+    const project = loadProjectConfig();
+    if (project) {
+      console.log(
+        project.warnings.length > 0
+          ? chalk.yellow(`⚠️  ${project.path} has ignored settings:`)
+          : chalk.green(`✅ ${project.path} is valid`),
+      );
+      for (const warning of project.warnings) {
+        console.log(chalk.yellow(`   • ${warning}`));
+      }
+    }
+  } catch (error) {
+    console.log(
+      chalk.red(
+        `❌ ${error instanceof Error ? error.message : "Invalid project config"}`,
+      ),
+    );
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * One-line description of a backup for lists and prompts
+ */
+function describeBackup(backup: ConfigBackup, index: number): string {
+  const { validation } = checkConfigFile(backup.path);
+  const summary = validation.config
+    ? `${validation.config.providers.length} provider(s)`
+    : "invalid";
+  return `${String(index + 1).padStart(2)}. ${backup.date.toLocaleString()} ${chalk.gray(`(${summary}${backup.label ? `, ${backup.label}` : ""})`)}`;
+}
+
+/**
+ * Restores auth.json from a backup, asking which one when none is given
+ *
+ * @param name - Backup number (1 = newest), file name or path
+ * @param listOnly - Only list the backups
+ */
+async function restoreConfiguration(
+  name: string | undefined,
+  listOnly: boolean,
+): Promise<void> {
+  const backups = listConfigBackups();
+  if (backups.length === 0) {
+    console.log(
+      chalk.yellow(
+        `No backups in ${BACKUP_DIR}. One is made each time the configuration is saved.`,
+      ),
+    );
+    return;
+  }
+
+  if (listOnly || (!name && !process.stdin.isTTY)) {
+    console.log(chalk.bold(`Backups in ${BACKUP_DIR} (newest first):`));
+    backups.forEach((backup, index) => {
+      console.log(`  ${describeBackup(backup, index)}`);
+    });
+    if (!listOnly) {
+      console.log(chalk.gray("\nRestore one with: aish config restore <number>"));
+    }
+    return;
+  }
+
+  const backup = name
+    ? findConfigBackup(name)
+    : findConfigBackup(
+        await select({
+          message: "Which backup should replace the current configuration?",
+          choices: backups.map((backup, index) => ({
+            name: describeBackup(backup, index),
+            value: backup.path,
+          })),
+        }),
+      );
+  if (!backup) {
+    throw new Error(
+      `Backup "${name}" not found. List them with: aish config restore --list`,
+    );
+  }
+
+  const { validation } = checkConfigFile(backup.path);
+  if (!validation.config) {
+    throw new Error(
+      `${backup.name} is not a valid configuration:\n${validation.errors.map((error) => `  ${formatConfigIssue(error)}`).join("\n")}`,
+    );
+  }
+
+  const previous = restoreConfigBackup(backup);
+  console.log(chalk.green(`✅ Restored ${CONFIG_FILE} from ${backup.name}`));
+  if (previous) {
+    console.log(
+      chalk.gray(`   The replaced configuration was saved as ${previous}`),
+    );
+  }
+}
+
+/**
+ * Writes the active profile's providers to an export file
+ *
+ * @param file - File to write; the export is printed when omitted
+ */
+function exportConfiguration(
+  file: string | undefined,
+  options: ExportOptions,
+): void {
+  const keys = (options.keys || "strip") as KeyMode;
+  if (!KEY_MODES.includes(keys)) {
+    throw new Error(`Invalid --keys "${keys}". Use ${KEY_MODES.join(", ")}.`);
+  }
+  if (file && existsSync(file) && !options.force) {
+    throw new Error(`${file} already exists. Use --force to overwrite it.`);
+  }
+
+  const config = loadProfileConfig();
+  if (config.providers.length === 0) {
+    throw new Error("No providers to export. Add one with: aish config add");
+  }
+
+  const exported = exportProfile(config, keys);
+  const content = JSON.stringify(exported, null, 2) + "\n";
+  if (!file) {
+    process.stdout.write(content);
+    return;
+  }
+
+  writeFileAtomic(file, content);
+  console.log(
+    chalk.green(
+      `✅ Exported ${exported.providers.length} provider(s) to ${file}`,
+    ),
+  );
+  const stored = config.providers.filter((p) => p.apiKey).length;
+  if (stored > 0) {
+    console.log(
+      chalk.gray(
+        keys === "strip"
+          ? `   ${stored} stored API key(s) left out; use --keys encrypt to include them`
+          : keys === "mask"
+            ? `   ${stored} stored API key(s) masked; recipients add their own`
+            : `   ${stored} stored API key(s) encrypted; share the passphrase separately`,
+      ),
+    );
+  }
+  console.log(chalk.gray(`   Import it with: aish config import ${file}`));
+}
+
+/**
+ * Whether an imported entry ends up without any API key
+ *
+ * @param local - Entry it replaces, whose key may be kept (see keepsLocalKey)
+ */
+function lacksApiKey(entry: ProviderConfig, local?: ProviderConfig): boolean {
+  return (
+    !PROVIDERS[entry.provider]?.local &&
+    !findApiKeySource(entry) &&
+    !(keepsLocalKey(local, entry) && findApiKeySource(local!))
+  );
+}
+
+/**
+ * Asks before saving an imported apiKeyCommand, which aish runs in a shell
+ *
+ * @returns Whether the command is kept; otherwise it is removed from the entry
+ */
+async function confirmKeyCommand(step: ImportStep): Promise<boolean> {
+  console.log(
+    chalk.yellow(
+      `\n⚠️  ${step.alias} gets its API key by running: ${chalk.bold(step.entry.apiKeyCommand!)}`,
+    ),
+  );
+  const keep = await confirm({
+    message: `Save this command? aish runs it whenever ${step.alias} is used.`,
+    default: false,
+  });
+  if (!keep) {
+    delete step.entry.apiKeyCommand;
+  }
+  return keep;
+}
+
+/**
+ * Asks before pointing a cloud provider at an imported server, which
+ * receives the API key with every request
+ *
+ * @returns Whether the server is kept; otherwise the provider's own is used
+ */
+async function confirmBaseUrl(step: ImportStep): Promise<boolean> {
+  console.log(
+    chalk.yellow(
+      `\n⚠️  ${step.alias} sends its requests and your ${step.entry.provider} API key (also one from the environment) to: ${chalk.bold(step.entry.baseUrl!)}`,
+    ),
+  );
+  const keep = await confirm({
+    message: `Use this server instead of ${PROVIDERS[step.entry.provider]?.name || step.entry.provider}'s own?`,
+    default: false,
+  });
+  if (!keep) {
+    delete step.entry.baseUrl;
+  }
+  return keep;
+}
+
+/**
+ * Asks what to do with an imported entry whose alias is configured differently
+ *
+ * @param step - Planned step, updated with the answer
+ * @param local - The configured entry with the same alias
+ * @param taken - Aliases in use, for renaming
+ */
+async function resolveImportConflict(
+  step: ImportStep,
+  local: ProviderConfig,
+  taken: Set<string>,
+): Promise<void> {
+  const describe = (p: ProviderConfig) =>
+    `${p.provider}, ${p.preferredModel}${p.baseUrl ? `, ${p.baseUrl}` : ""}`;
+  console.log(
+    `\n"${local.alias}" is already configured ${chalk.gray(`(${describe(local)})`)}; the file has ${chalk.gray(`(${describe(step.entry)})`)}`,
+  );
+
+  const action = await select({
+    message: `What should happen to "${local.alias}"?`,
+    default: step.action === "add" ? "rename" : step.action,
+    choices: [
+      { name: "Keep mine", value: "keep" },
+      {
+        name: keepsLocalKey(local, step.entry)
+          ? "Use the imported entry (keeping my API key)"
+          : step.entry.apiKey || step.entry.apiKeyCommand
+            ? "Use the imported entry"
+            : "Use the imported entry (without my API key: different server)",
+        value: "replace",
+      },
+      { name: "Add the imported entry under another alias", value: "rename" },
+    ],
+  });
+
+  if (action !== "rename") {
+    step.action = action as ImportStep["action"];
+    step.alias = local.alias;
+    return;
+  }
+  // Free a numbered alias picked by --on-conflict rename
+  if (step.alias !== local.alias) {
+    taken.delete(step.alias);
+  }
+  const alias = (
+    await input({
+      message: "Alias for the imported entry:",
+      default: uniqueAlias(local.alias, taken),
+      validate: (input) => {
+        if (!ALIAS_PATTERN.test(input.trim())) {
+          return 'Use letters, digits, ".", "-" and "_"';
+        }
+        if (taken.has(input.trim())) {
+          return `"${input.trim()}" is already used`;
+        }
+        return true;
+      },
+    })
+  ).trim();
+  taken.add(alias);
+  step.action = "add";
+  step.alias = alias;
+}
+
+/**
+ * Merges an export file into the active profile
+ *
+ * Without a terminal or with --non-interactive, conflicts are settled by
+ * --on-conflict and nothing is asked; imported apiKeyCommands and servers
+ * for cloud providers are then refused unless --allow-key-commands and
+ * --allow-base-urls are given.
+ *
+ * @param file - File written by `aish config export`
+ */
+async function importConfiguration(
+  file: string,
+  options: ImportOptions,
+): Promise<void> {
+  const strategy = (options.onConflict || "keep") as ConflictStrategy;
+  if (!CONFLICT_STRATEGIES.includes(strategy)) {
+    throw new Error(
+      `Invalid --on-conflict "${strategy}". Use ${CONFLICT_STRATEGIES.join(", ")}.`,
+    );
+  }
+  if (!existsSync(file)) {
+    throw new Error(`${file} does not exist`);
+  }
+  const interactive = !options.nonInteractive && !!process.stdin.isTTY;
+
+  const exported = readExportFile(file);
+  const entries = importedProviders(exported);
+  const config = loadProfileConfig(true);
+  const steps = planImport(config, entries, strategy);
+  const localEntry = (step: ImportStep) =>
+    config.providers.find((p) => p.alias === step.entry.alias);
+
+  if (!interactive && !options.allowKeyCommands) {
+    const commands = newKeyCommands(config, steps);
+    if (commands.length > 0) {
+      throw new Error(
+        `${file} sets commands that aish would run to get API keys:\n${commands
+          .map((step) => `  ${step.alias}: ${step.entry.apiKeyCommand}`)
+          .join("\n")}\nReview them and import again with --allow-key-commands.`,
+      );
+    }
+  }
+  if (!interactive && !options.allowBaseUrls) {
+    const servers = newBaseUrls(config, steps);
+    if (servers.length > 0) {
+      throw new Error(
+        `${file} sends API keys to servers other than the providers' own:\n${servers
+          .map((step) => `  ${step.alias}: ${step.entry.baseUrl}`)
+          .join("\n")}\nReview them and import again with --allow-base-urls.`,
+      );
+    }
+  }
+
+  let makeDefault = options.makeDefault || false;
+  if (interactive) {
+    const taken = new Set(
+      [...config.providers, ...steps].map((p) => p.alias),
+    );
+    for (const step of steps) {
+      const local = localEntry(step);
+      if (local && step.action !== "unchanged") {
+        await resolveImportConflict(step, local, taken);
+      }
+      if (step.action !== "add" && step.action !== "replace") continue;
+      if (newKeyCommands(config, [step]).length > 0) {
+        await confirmKeyCommand(step);
+      }
+      if (newBaseUrls(config, [step]).length > 0) {
+        await confirmBaseUrl(step);
+      }
+      const kept = step.action === "replace" ? local : undefined;
+      if (
+        lacksApiKey({ ...step.entry, alias: step.alias }, kept) &&
+        (await confirm({
+          message: `${formatEntry({ ...step.entry, alias: step.alias })} has no API key. Set one up now?`,
+          default: true,
+        }))
+      ) {
+        Object.assign(
+          step.entry,
+          await promptApiKeySource(step.entry.provider, step.alias),
+        );
+      }
+    }
+
+    const fileDefault = steps.find(
+      (step) => step.entry.alias === exported.defaultProvider,
+    );
+    if (
+      !makeDefault &&
+      fileDefault &&
+      config.defaultProvider &&
+      config.defaultProvider !== fileDefault.alias
+    ) {
+      makeDefault = await confirm({
+        message: `Make "${fileDefault.alias}" your default provider instead of "${config.defaultProvider}"?`,
+        default: false,
+      });
+    }
+  }
+
+  const before = config.defaultProvider;
+  const updated = updateProfileConfig((current) =>
+    applyImport(current, steps, exported, makeDefault),
+  );
+
+  const changed = steps.filter(
+    (step) => step.action === "add" || step.action === "replace",
+  );
+  const { name } = resolveProfileName(loadConfig());
+  console.log(
+    chalk.green(
+      changed.length > 0
+        ? `✅ Imported ${changed.length} provider(s) from ${file}${name !== DEFAULT_PROFILE ? ` into profile ${name}` : ""}`
+        : `✅ No changes from ${file}`,
+    ),
+  );
+  for (const step of steps) {
+    const entry = formatEntry({ ...step.entry, alias: step.alias });
+    switch (step.action) {
+      case "add": {
+        const renamed =
+          step.alias !== step.entry.alias
+            ? chalk.gray(` (${step.entry.alias} in the file)`)
+            : "";
+        console.log(`   ${chalk.green("+")} ${entry}${renamed}`);
+        break;
+      }
+      case "replace": {
+        const local = localEntry(step);
+        const droppedKey =
+          local &&
+          (local.apiKey || local.apiKeyCommand) &&
+          !step.entry.apiKey &&
+          !step.entry.apiKeyCommand &&
+          !keepsLocalKey(local, step.entry);
+        console.log(
+          `   ${chalk.yellow("~")} ${entry} ${chalk.gray(droppedKey ? "(replaced; your API key was not kept because the server changed)" : "(replaced)")}`,
+        );
+        break;
+      }
+      case "keep":
+        console.log(`   ${chalk.gray(`= ${step.alias} (kept yours)`)}`);
+        break;
+      default:
+        console.log(`   ${chalk.gray(`= ${step.alias} (already configured)`)}`);
+    }
+  }
+  if (updated.defaultProvider !== before && updated.defaultProvider) {
+    console.log(
+      `   ${chalk.bold("Default:")} ${chalk.gray(updated.defaultProvider)}`,
+    );
+  }
+
+  for (const step of changed) {
+    const entry = updated.providers.find((p) => p.alias === step.alias);
+    if (entry && lacksApiKey(entry)) {
+      console.log(
+        chalk.yellow(
+          `⚠️  ${step.alias} has no API key. ${missingApiKeyHint(entry)}`,
+        ),
+      );
     }
-    // Re-throw other errors
-    throw error;
   }
 }
 
 /**
- * Shows the interactive configuration menu
- *
- * @param config - Current configuration
+ * Shows the active profile when profiles are in use
  */
-async function showInteractiveMenu(config: Config): Promise<void> {
-  const action = await select({
-    message: "What would you like to do?",
-    choices: [
-      { name: "View current configuration", value: "view" },
-      { name: "Add new provider", value: "add" },
-      { name: "Remove provider", value: "remove" },
-      { name: "Set default provider", value: "default" },
-      { name: "Update existing provider", value: "update" },
-    ],
-  });
+function showActiveProfile(): void {
+  const config = loadConfig();
+  const { name, source } = resolveProfileName(config);
+  if (!config.profiles && name === DEFAULT_PROFILE) {
+    return;
+  }
 
-  switch (action) {
-    case "view":
-      showConfiguration(config);
-      break;
-    case "add":
-      await addNewProvider(config);
-      break;
-    case "remove":
-      await removeProviderInteractive(config);
-      break;
-    case "default":
-      await setDefaultProviderInteractive(config);
-      break;
-    case "update":
-      await updateProviderInteractive(config);
-      break;
+  const others = listProfiles(config).filter((profile) => profile !== name);
+  console.log(
+    `Profile: ${chalk.bold(name)} ${chalk.gray(`(${describeProfileSource(source)})`)}` +
+      (others.length ? chalk.gray(` · others: ${others.join(", ")}`) : ""),
+  );
+}
+
+/**
+ * Warns when the config directory or files are readable by other users
+ */
+function showPermissionWarnings(): void {
+  for (const problem of checkConfigPermissions()) {
+    console.log(chalk.yellow(`\n⚠️  ${problem}`));
   }
 }
 
 /**
- * Displays the current configuration in a formatted way
+ * Shows the project file that applies in the current directory, if any
  *
- * @param config - Configuration to display
+ * Project settings are merged at runtime and never saved to the user config.
  */
-function showConfiguration(config: Config): void {
-  console.log(chalk.bold("\nCurrent Configuration:"));
-
-  if (config.providers.length === 0) {
-    console.log(chalk.yellow("No providers configured."));
+function showProjectConfiguration(): void {
+  let project: LoadedProjectConfig | undefined;
+  try {
+    project = loadProjectConfig();
+  } catch (error) {
+    console.log(
+      chalk.yellow(
+        `\n⚠️  ${error instanceof Error ? error.message : "Invalid project config"}`,
+      ),
+    );
+    return;
+  }
+  if (!project) {
     return;
   }
 
-  config.providers.forEach((provider: ProviderConfig, index: number) => {
-    const isDefault = provider.provider === config.defaultProvider;
-    const prefix = isDefault ? chalk.green("✓ [DEFAULT]") : "  ";
-
-    console.log(`${prefix} ${chalk.bold(provider.provider)}`);
-    console.log(`    Preferred Model: ${chalk.gray(provider.preferredModel)}`);
-    console.log(`    API Key: ${chalk.gray(maskApiKey(provider.apiKey))}`);
-
-    if (index < config.providers.length - 1) {
-      console.log("");
-    }
-  });
+  const { config } = project;
+  console.log(`\nProject Config: ${chalk.gray(project.path)}`);
+  if (config.defaultProvider) {
+    console.log(`    Provider: ${chalk.gray(config.defaultProvider)}`);
+  }
+  if (config.model) {
+    console.log(`    Model: ${chalk.gray(config.model)}`);
+  }
+  if (config.context) {
+    console.log(`    Context: ${chalk.gray(config.context.split("\n")[0])}`);
+  }
+  if (config.policies?.length) {
+    console.log(`    Policies: ${chalk.gray(config.policies.length)}`);
+  }
+  if (config.templates) {
+    console.log(
+      `    Templates: ${chalk.gray(Object.keys(config.templates).join(", "))}`,
+    );
+  }
+  for (const warning of project.warnings) {
+    console.log(chalk.yellow(`    ⚠️  ${warning}`));
+  }
 }
 
 /**
@@ -283,6 +1283,8 @@ async function addNewProvider(config: Config): Promise<void> {
     return;
   }
 
+  const alias = (await promptAlias(config, selectedProvider)).trim();
+
   // Show available models and documentation
   console.log(`\n📚 Available models for ${provider.name}:`);
   if (provider.modelsListUrl) {
@@ -309,43 +1311,64 @@ async function addNewProvider(config: Config): Promise<void> {
     },
   });
 
-  // Get API key
-  console.log(`\n🔑 You'll need an API key for ${provider.name}.`);
-  console.log(
-    `   ${chalk.bold("Get your API key:")} ${chalk.blue(provider.docsUrl)}`,
-  );
+  let apiKey = "";
+  let apiKeyCommand: string | undefined;
+  let baseUrl: string | undefined;
+
+  if (provider.local) {
+    // Local providers are reached by URL; a key is only needed behind auth proxies
+    console.log(`\n🌐 ${provider.name} is reached through its server URL.`);
+    baseUrl = (await promptBaseUrl(provider.defaultBaseUrl)).trim();
+    apiKey = (
+      await input({
+        message: "Enter an API key (optional, press Enter to skip):",
+      })
+    ).trim();
+  } else {
+    // Get API key
+    console.log(`\n🔑 You'll need an API key for ${provider.name}.`);
+    console.log(
+      `   ${chalk.bold("Get your API key:")} ${chalk.blue(provider.docsUrl)}`,
+    );
 
-  const apiKey = await input({
-    message: "Enter your API key:",
-    validate: (input) => {
-      if (!input.trim()) {
-        return "API key is required";
-      }
-      if (input.length < 10) {
-        return "API key seems too short. Please check and try again.";
-      }
-      return true;
-    },
-  });
+    ({ apiKey = "", apiKeyCommand } = await promptApiKeySource(
+      selectedProvider,
+      alias,
+    ));
+  }
 
   // Create and save provider configuration
   const providerConfig: ProviderConfig = {
+    alias,
     provider: selectedProvider,
     preferredModel: selectedModel.trim(),
-    apiKey: apiKey.trim(),
+    ...(apiKey ? { apiKey } : {}),
+    ...(apiKeyCommand ? { apiKeyCommand } : {}),
+    ...(baseUrl ? { baseUrl } : {}),
   };
 
-  addProvider(config, providerConfig);
-  saveConfig(config);
+  const updated = updateProfileConfig((current) =>
+    addProvider(current, providerConfig),
+  );
 
   // Show success message
   console.log(chalk.green("\n✅ Provider added successfully!"));
   console.log(`   ${chalk.bold("Provider:")} ${chalk.gray(provider.name)}`);
+  if (alias !== selectedProvider) {
+    console.log(`   ${chalk.bold("Alias:")} ${chalk.gray(alias)}`);
+  }
   console.log(`   ${chalk.bold("Model:")} ${chalk.gray(selectedModel)}`);
-  console.log(`   ${chalk.bold("API Key:")} ${chalk.gray(maskApiKey(apiKey))}`);
+  if (baseUrl) {
+    console.log(`   ${chalk.bold("Base URL:")} ${chalk.gray(baseUrl)}`);
+  }
+  if (findApiKeySource(providerConfig)) {
+    console.log(
+      `   ${chalk.bold("API Key:")} ${chalk.gray(describeApiKey(providerConfig))}`,
+    );
+  }
 
   // Show usage hint for first provider
-  if (config.providers.length === 1) {
+  if (updated.providers.length === 1) {
     console.log(chalk.bold("\n🎉 You're all set! Try asking a question:"));
     console.log(
       `   ${chalk.gray(`aish ask "What is the capital of France?"`)}`,
@@ -365,8 +1388,8 @@ async function removeProviderInteractive(config: Config): Promise<void> {
   }
 
   const choices = config.providers.map((p: ProviderConfig) => ({
-    name: `${p.provider} (${p.preferredModel})`,
-    value: p.provider,
+    name: `${formatEntry(p)} (${p.preferredModel})`,
+    value: p.alias,
   }));
 
   const providerToRemove = await select({
@@ -383,8 +1406,7 @@ async function removeProviderInteractive(config: Config): Promise<void> {
         : "Please type the exact provider name to confirm",
   });
 
-  removeProvider(config, providerToRemove);
-  saveConfig(config);
+  updateProfileConfig((current) => removeProvider(current, providerToRemove));
 
   console.log(
     chalk.green(`✅ Provider "${providerToRemove}" removed successfully!`),
@@ -405,8 +1427,8 @@ async function setDefaultProviderInteractive(config: Config): Promise<void> {
   }
 
   const choices = config.providers.map((p: ProviderConfig) => ({
-    name: `${p.provider} (${p.preferredModel})${p.provider === config.defaultProvider ? " [CURRENT DEFAULT]" : ""}`,
-    value: p.provider,
+    name: `${formatEntry(p)} (${p.preferredModel})${p.alias === config.defaultProvider ? " [CURRENT DEFAULT]" : ""}`,
+    value: p.alias,
   }));
 
   const newDefault = await select({
@@ -414,8 +1436,7 @@ async function setDefaultProviderInteractive(config: Config): Promise<void> {
     choices,
   });
 
-  setDefaultProvider(config, newDefault);
-  saveConfig(config);
+  updateProfileConfig((current) => setDefaultProvider(current, newDefault));
 
   console.log(chalk.green(`✅ Default provider set to "${newDefault}"!`));
 }
@@ -432,8 +1453,8 @@ async function updateProviderInteractive(config: Config): Promise<void> {
   }
 
   const choices = config.providers.map((p: ProviderConfig) => ({
-    name: `${p.provider} (${p.preferredModel})`,
-    value: p.provider,
+    name: `${formatEntry(p)} (${p.preferredModel})`,
+    value: p.alias,
   }));
 
   const providerToUpdate = await select({
@@ -442,11 +1463,11 @@ async function updateProviderInteractive(config: Config): Promise<void> {
   });
 
   const existingProvider = config.providers.find(
-    (p: ProviderConfig) => p.provider === providerToUpdate,
+    (p: ProviderConfig) => p.alias === providerToUpdate,
   );
   if (!existingProvider) return;
 
-  const providerKey = providerToUpdate as keyof typeof PROVIDERS;
+  const providerKey = existingProvider.provider as keyof typeof PROVIDERS;
   const provider = PROVIDERS[providerKey];
   if (!provider) {
     console.error("Invalid provider selected");
@@ -479,6 +1500,14 @@ async function updateProviderInteractive(config: Config): Promise<void> {
     },
   });
 
+  // Local providers can move to a different server
+  let baseUrl = existingProvider.baseUrl;
+  if (provider.local) {
+    baseUrl = (
+      await promptBaseUrl(existingProvider.baseUrl || provider.defaultBaseUrl)
+    ).trim();
+  }
+
   // Optionally update API key
   const updateApiKey = await confirm({
     message: "Do you want to update the API key?",
@@ -486,37 +1515,54 @@ async function updateProviderInteractive(config: Config): Promise<void> {
   });
 
   let apiKey = existingProvider.apiKey;
-  if (updateApiKey) {
-    apiKey = await input({
-      message: "Enter your new API key:",
-      validate: (input) => {
-        if (!input.trim()) {
-          return "API key is required";
-        }
-        if (input.length < 10) {
-          return "API key seems too short. Please check and try again.";
-        }
-        return true;
-      },
-    });
+  let apiKeyCommand = existingProvider.apiKeyCommand;
+  if (updateApiKey && provider.local) {
+    apiKey = (await promptApiKey("Enter your new API key:")).trim();
+  } else if (updateApiKey) {
+    // The new source replaces the old one
+    ({ apiKey, apiKeyCommand } = await promptApiKeySource(
+      existingProvider.provider,
+      existingProvider.alias,
+    ));
   }
 
-  // Save updated configuration
-  const updatedProvider: ProviderConfig = {
-    provider: providerToUpdate,
-    preferredModel: selectedModel.trim(),
-    apiKey: apiKey?.trim() || existingProvider.apiKey,
-  };
-
-  addProvider(config, updatedProvider);
-  saveConfig(config);
+  // Apply only what was asked for to the entry as saved now; other aish
+  // processes may have changed it while the prompts were open
+  const updated = updateProfileConfig((current) => {
+    const entry = current.providers.find(
+      (p) => p.alias === existingProvider.alias,
+    );
+    if (!entry) return;
+    entry.preferredModel = selectedModel.trim();
+    if (provider.local) {
+      entry.baseUrl = baseUrl;
+    }
+    if (updateApiKey) {
+      entry.apiKey = apiKey;
+      entry.apiKeyCommand = apiKeyCommand;
+    }
+  });
+  const updatedProvider = updated.providers.find(
+    (p) => p.alias === existingProvider.alias,
+  );
+  if (!updatedProvider) {
+    console.log(
+      chalk.red(
+        `❌ Provider "${existingProvider.alias}" was removed in the meantime.`,
+      ),
+    );
+    return;
+  }
 
   console.log(chalk.green("\n✅ Provider updated successfully!"));
   console.log(`   ${chalk.bold("Provider:")} ${chalk.gray(provider.name)}`);
   console.log(`   ${chalk.bold("Model:")} ${chalk.gray(selectedModel)}`);
+  if (baseUrl) {
+    console.log(`   ${chalk.bold("Base URL:")} ${chalk.gray(baseUrl)}`);
+  }
   if (updateApiKey) {
     console.log(
-      `   ${chalk.bold("API Key:")} ${chalk.gray(maskApiKey(apiKey))}`,
+      `   ${chalk.bold("API Key:")} ${chalk.gray(describeApiKey(updatedProvider))}`,
     );
   }
 }
@@ -531,15 +1577,25 @@ async function handleCliConfiguration(
   config: Config,
   options: ConfigureOptions,
 ): Promise<void> {
-  if (!options.provider) {
+  // --provider may name an existing entry instead of a provider type
+  const existingProvider = options.alias
+    ? config.providers.find((p) => p.alias === options.alias)
+    : options.provider
+      ? findProvider(config, options.provider)
+      : undefined;
+  if (!options.provider && !existingProvider) {
     console.log(
       chalk.red("❌ --provider is required when using CLI configuration"),
     );
     return;
   }
 
-  const providerKey = options.provider as keyof typeof PROVIDERS;
-  if (!PROVIDERS[providerKey]) {
+  const providerKey = (
+    options.provider && PROVIDERS[options.provider]
+      ? options.provider
+      : existingProvider?.provider
+  ) as keyof typeof PROVIDERS | undefined;
+  if (!providerKey || !PROVIDERS[providerKey]) {
     console.log(
       chalk.red(
         `❌ Invalid provider "${options.provider}". Available providers: ${Object.keys(PROVIDERS).join(", ")}`,
@@ -548,9 +1604,23 @@ async function handleCliConfiguration(
     return;
   }
 
-  const existingProvider = config.providers.find(
-    (p) => p.provider === options.provider,
-  );
+  const alias = existingProvider?.alias || options.alias || providerKey;
+  if (!ALIAS_PATTERN.test(alias)) {
+    console.log(
+      chalk.red(
+        `❌ Invalid alias "${alias}". Use letters, digits, ".", "-" and "_".`,
+      ),
+    );
+    return;
+  }
+  if (existingProvider && existingProvider.provider !== providerKey) {
+    console.log(
+      chalk.red(
+        `❌ "${alias}" is already configured for ${existingProvider.provider}. Choose another --alias.`,
+      ),
+    );
+    return;
+  }
 
   // Validate required fields for new providers
   if (!options.model && !existingProvider) {
@@ -558,19 +1628,23 @@ async function handleCliConfiguration(
     return;
   }
 
-  // Validate required authentication field for new providers
-  if (!existingProvider && !options.apiKey) {
-    console.log(
-      chalk.red("❌ --api-key is required when adding a new provider"),
-    );
-    return;
-  }
+  const providerInfo = PROVIDERS[providerKey];
 
-  // Create provider configuration
+  // Create provider configuration; a new key or command replaces the other
+  const apiKey =
+    options.apiKey ||
+    (options.apiKeyCommand ? undefined : existingProvider?.apiKey);
+  const apiKeyCommand =
+    options.apiKeyCommand ||
+    (options.apiKey ? undefined : existingProvider?.apiKeyCommand);
+  const baseUrl = options.baseUrl || existingProvider?.baseUrl;
   const providerConfig: ProviderConfig = {
-    provider: options.provider,
+    alias,
+    provider: providerKey,
     preferredModel: options.model || existingProvider?.preferredModel || "",
-    apiKey: options.apiKey || existingProvider?.apiKey || "",
+    ...(apiKey ? { apiKey } : {}),
+    ...(apiKeyCommand ? { apiKeyCommand } : {}),
+    ...(baseUrl ? { baseUrl } : {}),
   };
 
   // Final validation
@@ -579,50 +1653,69 @@ async function handleCliConfiguration(
     return;
   }
 
-  if (!providerConfig.apiKey) {
-    console.log(chalk.red("❌ API key is required"));
+  // Cloud providers need a key from the config, a command or the environment
+  if (!findApiKeySource(providerConfig) && !providerInfo.local) {
+    console.log(
+      chalk.red(
+        `❌ An API key is required: use --api-key or --api-key-command, or export ${apiKeyEnvNames(providerConfig).join(" or ")}`,
+      ),
+    );
+    return;
+  }
+
+  if (providerInfo.local && !baseUrl && !providerInfo.defaultBaseUrl) {
+    console.log(chalk.red(`❌ --base-url is required for ${providerKey}`));
     return;
   }
 
   // Save configuration
-  addProvider(config, providerConfig);
-  saveConfig(config);
+  updateProfileConfig((current) => addProvider(current, providerConfig));
 
-  const provider = PROVIDERS[providerKey];
   const action = existingProvider ? "updated" : "added";
 
   console.log(chalk.green(`\n✅ Provider ${action} successfully!`));
-  console.log(`   ${chalk.bold("Provider:")} ${chalk.gray(provider.name)}`);
+  console.log(`   ${chalk.bold("Provider:")} ${chalk.gray(providerInfo.name)}`);
+  if (alias !== providerKey) {
+    console.log(`   ${chalk.bold("Alias:")} ${chalk.gray(alias)}`);
+  }
   console.log(
     `   ${chalk.bold("Preferred Model:")} ${chalk.gray(providerConfig.preferredModel)}`,
   );
-  console.log(
-    `   ${chalk.bold("API Key:")} ${chalk.gray(maskApiKey(providerConfig.apiKey))}`,
-  );
+  if (providerConfig.baseUrl) {
+    console.log(
+      `   ${chalk.bold("Base URL:")} ${chalk.gray(providerConfig.baseUrl)}`,
+    );
+  }
+  if (findApiKeySource(providerConfig) || !providerInfo.local) {
+    console.log(
+      `   ${chalk.bold("API Key:")} ${chalk.gray(describeApiKey(providerConfig))}`,
+    );
+  }
 }
 
 /**
  * Handles provider removal via CLI
  *
  * @param config - Configuration to modify
- * @param providerToRemove - Name of provider to remove
+ * @param providerToRemove - Alias of the provider to remove
  */
 async function handleRemoveProvider(
   config: Config,
   providerToRemove: string,
 ): Promise<void> {
-  const existingProvider = config.providers.find(
-    (p) => p.provider === providerToRemove,
-  );
+  const existingProvider = findProvider(config, providerToRemove);
   if (!existingProvider) {
     console.log(chalk.red(`❌ Provider "${providerToRemove}" not found.`));
     return;
   }
 
-  removeProvider(config, providerToRemove);
-  saveConfig(config);
+  updateProfileConfig((current) =>
+    removeProvider(current, existingProvider.alias),
+  );
   console.log(
-    chalk.green(`✅ Provider "${providerToRemove}" removed successfully!`),
+    chalk.green(
+      `✅ Provider "${existingProvider.alias}" removed successfully!`,
+    ),
   );
 }
 
@@ -630,15 +1723,13 @@ async function handleRemoveProvider(
  * Handles setting default provider via CLI
  *
  * @param config - Configuration to modify
- * @param providerName - Name of provider to set as default
+ * @param providerName - Alias of the provider to set as default
  */
 async function handleSetDefaultProvider(
   config: Config,
   providerName: string,
 ): Promise<void> {
-  const existingProvider = config.providers.find(
-    (p) => p.provider === providerName,
-  );
+  const existingProvider = findProvider(config, providerName);
   if (!existingProvider) {
     console.log(
       chalk.red(`❌ Provider "${providerName}" not found. Add it first.`),
@@ -646,34 +1737,73 @@ async function handleSetDefaultProvider(
     return;
   }
 
-  setDefaultProvider(config, providerName);
-  saveConfig(config);
-  console.log(chalk.green(`✅ Default provider set to "${providerName}"!`));
+  updateProfileConfig((current) =>
+    setDefaultProvider(current, existingProvider.alias),
+  );
+  console.log(
+    chalk.green(`✅ Default provider set to "${existingProvider.alias}"!`),
+  );
+}
+
+/**
+ * Handles setting the fallback chain via CLI
+ *
+ * @param config - Configuration to modify
+ * @param providerNames - Aliases in the order they should be tried
+ */
+async function handleSetFallbackProviders(
+  config: Config,
+  providerNames: string[],
+): Promise<void> {
+  const unknown = providerNames.filter((name) => !findProvider(config, name));
+  if (unknown.length > 0) {
+    console.log(
+      chalk.red(
+        `❌ Provider(s) not configured: ${unknown.join(", ")}. Add them first.`,
+      ),
+    );
+    return;
+  }
+
+  const aliases = providerNames.map((name) => findProvider(config, name)!.alias);
+  const updated = updateProfileConfig((current) =>
+    setFallbackProviders(current, aliases),
+  );
+
+  if (updated.fallbackProviders?.length) {
+    console.log(
+      chalk.green(
+        `✅ Fallback order set to ${updated.fallbackProviders.join(" → ")}`,
+      ),
+    );
+  } else {
+    console.log(chalk.green("✅ Fallback providers cleared."));
+  }
 }
 
 /**
  * Handles updating model for existing provider via CLI
  *
  * @param config - Configuration to modify
- * @param updateModelArg - Provider:model string (e.g., "openai:gpt-4o")
+ * @param updateModelArg - Alias:model string (e.g., "openai:gpt-4o", "ollama:llama3.2:3b")
  */
 async function handleUpdateModel(
   config: Config,
   updateModelArg: string,
 ): Promise<void> {
-  const parts = updateModelArg.split(":");
-  if (parts.length !== 2 || !parts[0] || !parts[1]) {
+  // Only the first ":" separates the alias; model tags can contain more
+  // (ollama:llama3.2:3b)
+  const separator = updateModelArg.indexOf(":");
+  const providerName = updateModelArg.slice(0, separator);
+  const newModel = updateModelArg.slice(separator + 1);
+  if (separator === -1 || !providerName || !newModel.trim()) {
     console.log(
-      chalk.red("❌ Invalid format. Use: provider:model (e.g., openai:gpt-4o)"),
+      chalk.red("❌ Invalid format. Use: alias:model (e.g., openai:gpt-4o)"),
     );
     return;
   }
 
-  const [providerName, newModel] = parts;
-
-  const existingProvider = config.providers.find(
-    (p) => p.provider === providerName,
-  );
+  const existingProvider = findProvider(config, providerName);
   if (!existingProvider) {
     console.log(
       chalk.red(`❌ Provider "${providerName}" not found. Add it first.`),
@@ -681,26 +1811,150 @@ async function handleUpdateModel(
     return;
   }
 
-  const providerKey = providerName as keyof typeof PROVIDERS;
+  const providerKey = existingProvider.provider as keyof typeof PROVIDERS;
   if (!PROVIDERS[providerKey]) {
-    console.log(chalk.red(`❌ Invalid provider "${providerName}".`));
+    console.log(
+      chalk.red(`❌ Invalid provider "${existingProvider.provider}".`),
+    );
     return;
   }
 
-  // Update the model while keeping existing API key
-  const updatedProvider: ProviderConfig = {
-    provider: providerName,
-    preferredModel: newModel.trim(),
-    apiKey: existingProvider.apiKey,
-  };
-
-  addProvider(config, updatedProvider);
-  saveConfig(config);
+  // Update the model while keeping the entry's current key and endpoint
+  updateProfileConfig((current) => {
+    const entry = current.providers.find(
+      (p) => p.alias === existingProvider.alias,
+    );
+    if (entry) {
+      entry.preferredModel = newModel.trim();
+    }
+  });
 
   const provider = PROVIDERS[providerKey];
   console.log(chalk.green(`\n✅ Model updated successfully!`));
   console.log(`   ${chalk.bold("Provider:")} ${chalk.gray(provider.name)}`);
+  if (existingProvider.alias !== providerKey) {
+    console.log(
+      `   ${chalk.bold("Alias:")} ${chalk.gray(existingProvider.alias)}`,
+    );
+  }
   console.log(
     `   ${chalk.bold("Preferred Model:")} ${chalk.gray(existingProvider.preferredModel)} → ${chalk.gray(newModel)}`,
   );
 }
+
+/**
+ * Prompts for an API key with basic sanity checks
+ *
+ * @param message - Prompt message to display
+ * @returns The entered API key
+ */
+async function promptApiKey(message: string): Promise<string> {
+  return input({
+    message,
+    validate: (input) => {
+      if (!input.trim()) {
+        return "API key is required";
+      }
+      if (input.length < 10) {
+        return "API key seems too short. Please check and try again.";
+      }
+      return true;
+    },
+  });
+}
+
+/**
+ * Asks how a cloud provider's API key should be provided
+ *
+ * Offers the key found in the environment (if any), a command that prints
+ * the key (a password manager), or pasting the key into the config.
+ *
+ * @param provider - Provider being added
+ * @param alias - Alias of the entry, which names its AISH_ variable
+ * @returns The key or command to store; both empty to use the environment
+ */
+async function promptApiKeySource(
+  provider: string,
+  alias: string,
+): Promise<{ apiKey?: string; apiKeyCommand?: string }> {
+  const envKey = findApiKeySource({ alias, provider, preferredModel: "" });
+  const source = await select({
+    message: "How should aish get the API key?",
+    choices: [
+      ...(envKey
+        ? [
+            {
+              name: `Use $${envKey.name} from the environment`,
+              value: "env",
+            },
+          ]
+        : []),
+      { name: "Paste it (stored in ~/.config/aish/auth.json)", value: "paste" },
+      {
+        name: "Run a command that prints it (pass, op, security, ...)",
+        value: "command",
+      },
+    ],
+  });
+
+  if (source === "env") {
+    return {};
+  }
+  if (source === "command") {
+    const apiKeyCommand = await input({
+      message: "Command that prints the API key:",
+      validate: (input) => (input.trim() ? true : "Command is required"),
+    });
+    return { apiKeyCommand: apiKeyCommand.trim() };
+  }
+  return { apiKey: (await promptApiKey("Enter your API key:")).trim() };
+}
+
+/**
+ * Asks for the alias of a new entry
+ *
+ * The provider name is suggested for its first entry; later entries of the
+ * same provider get a numbered suggestion (e.g. openai-2).
+ *
+ * @param config - Configuration the entry is added to
+ * @param provider - Provider being added
+ * @returns The entered alias
+ */
+async function promptAlias(config: Config, provider: string): Promise<string> {
+  const taken = new Set(config.providers.map((p) => p.alias));
+  return input({
+    message: "Name for this provider entry (alias):",
+    default: uniqueAlias(provider, taken),
+    validate: (input) => {
+      if (!ALIAS_PATTERN.test(input.trim())) {
+        return 'Use letters, digits, ".", "-" and "_"';
+      }
+      if (taken.has(input.trim())) {
+        return `"${input.trim()}" is already used; remove or update it instead`;
+      }
+      return true;
+    },
+  });
+}
+
+/**
+ * Prompts for the base URL of a local / OpenAI-compatible server
+ *
+ * @param defaultUrl - Suggested URL (provider default or current value)
+ * @returns The entered base URL
+ */
+async function promptBaseUrl(defaultUrl?: string): Promise<string> {
+  return input({
+    message: "Enter the server base URL:",
+    default: defaultUrl,
+    validate: (input) => {
+      if (!input.trim()) {
+        return "Base URL is required";
+      }
+      if (!/^https?:\/\//.test(input.trim())) {
+        return "Base URL must start with http:// or https://";
+      }
+      return true;
+    },
+  });
+}
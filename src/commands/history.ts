@@ -0,0 +1,264 @@
+/**
+ * History Command
+ *
+ * Browses, searches and re-runs past `aish command` runs recorded in the
+ * local history log.
+ */
+
+import chalk from "chalk";
+import { Command } from "commander";
+import { loadEffectiveConfig } from "../config/project";
+import {
+  findHistoryEntry,
+  loadHistory,
+  type HistoryEntry,
+} from "../config/history";
+import { formatDay, parseSince } from "../utils/dates";
+import { CommandExecutor } from "./command";
+
+/**
+ * Command-line options for listing history
+ */
+interface HistoryOptions {
+  grep?: string;
+  failed?: boolean;
+  since?: string;
+  limit?: string;
+  json?: boolean;
+}
+
+/**
+ * Command-line options for re-running a history entry
+ */
+interface RerunOptions {
+  yes?: boolean;
+  timeout?: string;
+  tty?: boolean;
+  maxTries?: string;
+}
+
+/**
+ * Formats a timestamp as YYYY-MM-DD HH:MM in local time
+ */
+function formatTimestamp(timestamp: string): string {
+  const date = new Date(timestamp);
+  const hours = String(date.getHours()).padStart(2, "0");
+  const minutes = String(date.getMinutes()).padStart(2, "0");
+  return `${formatDay(date)} ${hours}:${minutes}`;
+}
+
+/**
+ * Colored status marker for a run
+ */
+function statusIcon(entry: HistoryEntry): string {
+  switch (entry.status) {
+    case "success":
+      return chalk.green("✓");
+    case "dry-run":
+      return chalk.gray("○");
+    default:
+      return chalk.red("✗");
+  }
+}
+
+/**
+ * Prints an error and exits
+ */
+function handleError(error: unknown): never {
+  console.log(
+    chalk.red(
+      `❌ Error: ${error instanceof Error ? error.message : "Unknown error occurred"}`,
+    ),
+  );
+  process.exit(1);
+}
+
+/**
+ * Registers the history command with the provided program.
+ */
+export function setupHistoryCommand(program: Command): void {
+  const historyCmd = program
+    .command("history")
+    .description("Browse, search and re-run past commands")
+    .option("--grep <text>", "only runs whose request or command contains text")
+    .option("--failed", "only runs that did not succeed")
+    .option("--since <date>", "only runs since YYYY-MM-DD or Nd")
+    .option("-n, --limit <n>", "number of runs to show (default 20)")
+    .option("--json", "output matching runs as JSON")
+    .action((options: HistoryOptions) => {
+      try {
+        handleListHistory(options);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  historyCmd
+    .command("show <id>")
+    .description("Show details of a past run")
+    .option("--json", "output the run as JSON")
+    .action((id: string, options: { json?: boolean }) => {
+      try {
+        handleShowHistory(id, options);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  historyCmd
+    .command("rerun <id>")
+    .description("Run a past command again (asks for confirmation, no AI call)")
+    .option("-y, --yes", "run without prompting")
+    .option("-t, --timeout <seconds>", "timeout in seconds")
+    .option("--tty", "force interactive/TTY mode for the command")
+    .option(
+      "--max-tries <n>",
+      "maximum failed attempts before aborting (default 3)",
+    )
+    .action(async (id: string, options: RerunOptions) => {
+      try {
+        await handleRerunHistory(id, options);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+}
+
+/**
+ * Lists past runs, newest first
+ */
+export function handleListHistory(options: HistoryOptions): void {
+  const since = options.since ? parseSince(options.since) : undefined;
+  const limit = options.limit ? parseInt(options.limit) : 20;
+  if (Number.isNaN(limit) || limit < 1) {
+    throw new Error(`Invalid --limit value "${options.limit}".`);
+  }
+
+  const needle = options.grep?.toLowerCase();
+  const entries = loadHistory()
+    .filter((entry) => !since || new Date(entry.timestamp) >= since)
+    .filter((entry) => !options.failed || entry.status === "aborted")
+    .filter(
+      (entry) =>
+        !needle ||
+        [entry.query, entry.finalQuery, entry.command].some((text) =>
+          text?.toLowerCase().includes(needle),
+        ),
+    )
+    .reverse()
+    .slice(0, limit);
+
+  if (options.json) {
+    console.log(JSON.stringify(entries));
+    return;
+  }
+
+  if (entries.length === 0) {
+    console.log(chalk.yellow("No matching history."));
+    return;
+  }
+
+  for (const entry of entries) {
+    console.log(
+      `${chalk.gray(entry.id)}  ${chalk.gray(formatTimestamp(entry.timestamp))}  ${statusIcon(entry)}  ${chalk.cyan(entry.command || "(no command)")}`,
+    );
+    console.log(chalk.gray(`${" ".repeat(30)}${entry.query}`));
+  }
+  console.log(
+    chalk.gray(
+      "\nUse 'aish history show <id>' for details or 'aish history rerun <id>' to run again.",
+    ),
+  );
+}
+
+/**
+ * Shows one run in detail
+ */
+export function handleShowHistory(
+  id: string,
+  options: { json?: boolean },
+): void {
+  const entry = findHistoryEntry(id);
+
+  if (options.json) {
+    console.log(JSON.stringify(entry));
+    return;
+  }
+
+  const outcome =
+    entry.status === "aborted"
+      ? `aborted (${entry.abortedReason || "unknown"})`
+      : entry.status;
+  const exit = entry.exitCode === null ? "" : `, exit ${entry.exitCode}`;
+
+  console.log(chalk.bold(`Run ${entry.id}\n`));
+  console.log(`  Date:      ${chalk.gray(formatTimestamp(entry.timestamp))}`);
+  console.log(`  Directory: ${chalk.gray(entry.cwd)}`);
+  console.log(`  Request:   ${chalk.gray(entry.query)}`);
+  if (entry.finalQuery) {
+    console.log(`  Refined:   ${chalk.gray(entry.finalQuery)}`);
+  }
+  console.log(`  Command:   ${chalk.cyan(entry.command || "(no command)")}`);
+  console.log(`  Status:    ${statusIcon(entry)} ${outcome}${exit}`);
+  if (entry.provider) {
+    console.log(`  Model:     ${chalk.gray(`${entry.provider}/${entry.model}`)}`);
+  }
+  console.log(
+    `  Duration:  ${chalk.gray(`${(entry.durationMs / 1000).toFixed(1)}s`)}`,
+  );
+  if (entry.rerunOf) {
+    console.log(`  Re-run of: ${chalk.gray(entry.rerunOf)}`);
+  }
+
+  if (entry.attempts.length > 0) {
+    console.log(chalk.bold("\nAttempts:"));
+    entry.attempts.forEach((attempt, index) => {
+      const icon = attempt.exitCode === 0 ? chalk.green("✓") : chalk.red("✗");
+      console.log(
+        `  ${index + 1}. ${icon} ${chalk.cyan(attempt.command)} ${chalk.gray(`(exit ${attempt.exitCode})`)}`,
+      );
+      if (attempt.explanation) {
+        console.log(chalk.gray(`       ${attempt.explanation}`));
+      }
+    });
+  }
+}
+
+/**
+ * Re-executes the command of a past run through the normal confirmation flow
+ *
+ * The model is only used again if the command fails and needs analysis.
+ */
+export async function handleRerunHistory(
+  id: string,
+  options: RerunOptions,
+): Promise<void> {
+  const entry = findHistoryEntry(id);
+  if (!entry.command) {
+    throw new Error(`History entry ${entry.id} has no command to run.`);
+  }
+
+  if (entry.cwd !== process.cwd()) {
+    console.log(chalk.gray(`Originally run in ${entry.cwd}`));
+  }
+
+  const config = loadEffectiveConfig();
+  const { createModelWithOverride } = await import("../config/ai");
+  const model = createModelWithOverride(config);
+  const executor = new CommandExecutor(
+    model,
+    options.timeout ? parseInt(options.timeout) * 1000 : undefined,
+    false,
+    options.tty || false,
+    options.yes || false,
+    options.maxTries ? parseInt(options.maxTries) : 3,
+    false,
+    config,
+  );
+
+  await executor.execute(entry.finalQuery || entry.query, {
+    command: entry.command,
+    needsInteractiveMode: entry.interactive,
+    historyId: entry.id,
+  });
+}
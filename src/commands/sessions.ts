@@ -0,0 +1,226 @@
+/**
+ * Sessions Command
+ *
+ * Lists, shows, deletes and exports the named conversations that
+ * `ask`, `chat` and `command` keep with `--session <name>`.
+ */
+
+import chalk from "chalk";
+import { Command } from "commander";
+import { confirm } from "@inquirer/prompts";
+import { writeFileSync } from "fs";
+import {
+  deleteSession,
+  formatTranscript,
+  listSessions,
+  loadSession,
+  messageText,
+  type Session,
+} from "../config/sessions";
+
+/**
+ * Prints an error and exits
+ */
+function handleError(error: unknown): never {
+  console.log(
+    chalk.red(
+      `❌ Error: ${error instanceof Error ? error.message : "Unknown error occurred"}`,
+    ),
+  );
+  process.exit(1);
+}
+
+/**
+ * Loads a session or throws a helpful error
+ */
+function requireSession(name: string): Session {
+  const session = loadSession(name);
+  if (!session) {
+    throw new Error(
+      `Session "${name}" not found. Run 'aish sessions list' to see sessions.`,
+    );
+  }
+  return session;
+}
+
+/**
+ * Number of user turns in a session
+ */
+function countTurns(session: Session): number {
+  return session.messages.filter((message) => message.role === "user").length;
+}
+
+/**
+ * Registers the sessions command with the provided program.
+ */
+export function setupSessionsCommand(program: Command): void {
+  const sessionsCmd = program
+    .command("sessions")
+    .description("Manage saved conversation sessions");
+
+  sessionsCmd
+    .command("list", { isDefault: true })
+    .description("List saved sessions")
+    .option("--json", "output sessions as JSON")
+    .action((options: { json?: boolean }) => {
+      try {
+        handleListSessions(options);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  sessionsCmd
+    .command("show <name>")
+    .description("Show the conversation in a session")
+    .option("--json", "output the session as JSON")
+    .action((name: string, options: { json?: boolean }) => {
+      try {
+        handleShowSession(name, options);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  sessionsCmd
+    .command("delete <name>")
+    .description("Delete a session")
+    .option("-f, --force", "delete without confirmation")
+    .action(async (name: string, options: { force?: boolean }) => {
+      try {
+        await handleDeleteSession(name, options);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  sessionsCmd
+    .command("export <name>")
+    .description("Export a session as markdown or JSON")
+    .option("--format <format>", "markdown or json (default markdown)")
+    .option("-o, --output <file>", "write to a file instead of stdout")
+    .action(
+      (name: string, options: { format?: string; output?: string }) => {
+        try {
+          handleExportSession(name, options);
+        } catch (error) {
+          handleError(error);
+        }
+      },
+    );
+}
+
+export function handleListSessions(options: { json?: boolean }): void {
+  const sessions = listSessions();
+
+  if (options.json) {
+    console.log(
+      JSON.stringify(
+        sessions.map((session) => ({
+          name: session.name,
+          turns: countTurns(session),
+          createdAt: session.createdAt,
+          updatedAt: session.updatedAt,
+          provider: session.provider,
+          model: session.model,
+        })),
+      ),
+    );
+    return;
+  }
+
+  if (sessions.length === 0) {
+    console.log(
+      chalk.yellow(
+        "No sessions yet. Start one with: aish ask --session <name> \"...\"",
+      ),
+    );
+    return;
+  }
+
+  const width = Math.max(...sessions.map((session) => session.name.length));
+  for (const session of sessions) {
+    const turns = countTurns(session);
+    const model = session.provider
+      ? `  ${session.provider}/${session.model}`
+      : "";
+    console.log(
+      `${chalk.bold(session.name.padEnd(width))}  ${chalk.gray(
+        `${turns} turn${turns === 1 ? "" : "s"}  updated ${session.updatedAt.slice(0, 16).replace("T", " ")}${model}`,
+      )}`,
+    );
+  }
+}
+
+export function handleShowSession(
+  name: string,
+  options: { json?: boolean },
+): void {
+  const session = requireSession(name);
+
+  if (options.json) {
+    console.log(JSON.stringify(session));
+    return;
+  }
+
+  console.log(chalk.bold(`Session ${session.name}\n`));
+  if (session.system) {
+    console.log(chalk.gray(`System: ${session.system}\n`));
+  }
+  for (const message of session.messages) {
+    if (message.role === "user") {
+      console.log(chalk.cyan(`› ${messageText(message)}`));
+    } else if (message.role === "assistant") {
+      console.log(`${messageText(message)}\n`);
+    }
+  }
+}
+
+export async function handleDeleteSession(
+  name: string,
+  options: { force?: boolean },
+): Promise<void> {
+  requireSession(name);
+
+  if (!options.force) {
+    const shouldDelete = await confirm({
+      message: `Delete session "${name}"?`,
+      default: false,
+    });
+    if (!shouldDelete) {
+      console.log(chalk.yellow("❌ Delete cancelled."));
+      return;
+    }
+  }
+
+  deleteSession(name);
+  console.log(chalk.green(`✅ Deleted session "${name}"`));
+}
+
+export function handleExportSession(
+  name: string,
+  options: { format?: string; output?: string },
+): void {
+  const session = requireSession(name);
+  const format = options.format || "markdown";
+
+  let content: string;
+  switch (format) {
+    case "json":
+      content = JSON.stringify(session, null, 2);
+      break;
+    case "markdown":
+    case "md":
+      content = `# ${session.name}\n\n${formatTranscript(session.messages)}`;
+      break;
+    default:
+      throw new Error(`Invalid --format "${format}". Use markdown or json.`);
+  }
+
+  if (options.output) {
+    writeFileSync(options.output, content);
+    console.log(chalk.green(`✅ Exported session "${name}" to ${options.output}`));
+  } else {
+    console.log(content);
+  }
+}
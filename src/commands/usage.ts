@@ -0,0 +1,179 @@
+/**
+ * Usage Command
+ *
+ * Reports token usage and estimated cost recorded in the local usage ledger,
+ * grouped by day, week, provider or model.
+ */
+
+import chalk from "chalk";
+import { Command } from "commander";
+import {
+  addToTotals,
+  emptyTotals,
+  loadUsageRecords,
+  type UsageRecord,
+  type UsageTotals,
+} from "../config/usage";
+import { formatDay, parseSince } from "../utils/dates";
+
+/** Supported breakdowns */
+const GROUPINGS = ["day", "week", "provider", "model"] as const;
+type Grouping = (typeof GROUPINGS)[number];
+
+/**
+ * Command-line options for the usage command
+ */
+interface UsageOptions {
+  by?: string;
+  since?: string;
+  json?: boolean;
+}
+
+/**
+ * Returns the group key for a record
+ */
+function groupKey(record: UsageRecord, by: Grouping): string {
+  const date = new Date(record.timestamp);
+  switch (by) {
+    case "day":
+      return formatDay(date);
+    case "week": {
+      // Weeks start on Monday
+      const monday = new Date(date);
+      monday.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+      return formatDay(monday);
+    }
+    case "provider":
+      return record.provider;
+    case "model":
+      return `${record.provider}/${record.model}`;
+  }
+}
+
+/**
+ * Formats a USD amount with enough precision for small token bills
+ */
+function formatCost(cost: number): string {
+  return cost >= 1 ? `$${cost.toFixed(2)}` : `$${cost.toFixed(4)}`;
+}
+
+/**
+ * Registers the usage command with the provided program.
+ */
+export function setupUsageCommand(program: Command): void {
+  program
+    .command("usage")
+    .description("Show token usage and estimated cost")
+    .option(
+      "--by <grouping>",
+      `breakdown: ${GROUPINGS.join(", ")} (default day)`,
+    )
+    .option("--since <date>", "only include usage since YYYY-MM-DD or Nd")
+    .option("--json", "output the report as JSON")
+    .action((options: UsageOptions) => {
+      try {
+        handleUsageCommand(options);
+      } catch (error) {
+        console.log(
+          chalk.red(
+            `❌ Error: ${error instanceof Error ? error.message : "Unknown error occurred"}`,
+          ),
+        );
+        process.exit(1);
+      }
+    });
+}
+
+export function handleUsageCommand(options: UsageOptions): void {
+  const by = (options.by || "day") as Grouping;
+  if (!GROUPINGS.includes(by)) {
+    throw new Error(
+      `Invalid --by value "${options.by}". Use one of: ${GROUPINGS.join(", ")}`,
+    );
+  }
+
+  const since = options.since ? parseSince(options.since) : undefined;
+  const records = loadUsageRecords().filter(
+    (record) => !since || new Date(record.timestamp) >= since,
+  );
+
+  const total = emptyTotals();
+  const groups = new Map<string, UsageTotals>();
+  let unpriced = 0;
+
+  for (const record of records) {
+    const key = groupKey(record, by);
+    const group = groups.get(key) || emptyTotals();
+    addToTotals(group, record);
+    groups.set(key, group);
+    addToTotals(total, record);
+    if (record.cost === null) unpriced += 1;
+  }
+
+  // Dates ascending, everything else by cost descending
+  const sorted = [...groups.entries()].sort(([a, ta], [b, tb]) =>
+    by === "day" || by === "week" ? a.localeCompare(b) : tb.cost - ta.cost,
+  );
+
+  if (options.json) {
+    console.log(
+      JSON.stringify({
+        groupBy: by,
+        since: since ? formatDay(since) : null,
+        total,
+        unpricedRequests: unpriced,
+        groups: sorted.map(([key, totals]) => ({ key, ...totals })),
+      }),
+    );
+    return;
+  }
+
+  if (records.length === 0) {
+    console.log(chalk.yellow("No usage recorded yet."));
+    return;
+  }
+
+  const heading = by === "week" ? "Week of" : by[0]!.toUpperCase() + by.slice(1);
+  const keyWidth = Math.max(
+    heading.length,
+    "Total".length,
+    ...sorted.map(([key]) => key.length),
+  );
+  const row = (key: string, totals: UsageTotals) =>
+    [
+      key.padEnd(keyWidth),
+      String(totals.requests).padStart(8),
+      totals.inputTokens.toLocaleString().padStart(12),
+      totals.outputTokens.toLocaleString().padStart(12),
+      formatCost(totals.cost).padStart(10),
+    ].join("  ");
+
+  console.log(
+    chalk.bold(
+      `Usage by ${by}${since ? ` since ${formatDay(since)}` : ""}:\n`,
+    ),
+  );
+  console.log(
+    chalk.gray(
+      [
+        heading.padEnd(keyWidth),
+        "Requests".padStart(8),
+        "Input".padStart(12),
+        "Output".padStart(12),
+        "Cost".padStart(10),
+      ].join("  "),
+    ),
+  );
+  for (const [key, totals] of sorted) {
+    console.log(row(key, totals));
+  }
+  console.log(chalk.bold(row("Total", total)));
+
+  if (unpriced > 0) {
+    console.log(
+      chalk.gray(
+        `\n${unpriced} request(s) used models without known rates and are not included in the cost.`,
+      ),
+    );
+  }
+}
@@ -35,6 +35,14 @@ export class LoadingIndicator {
   /** Current position for shimmer effect animation */
   private shimmerFrame = 0;
   
+  /** Text currently displayed next to the spinner */
+  private text = '';
+  
+  /** Whether the spinner is currently running */
+  get isActive(): boolean {
+    return this.interval !== null;
+  }
+  
   /**
    * Creates shimmer effect on text by applying different colors to characters
    * based on their distance from the current shimmer position
@@ -73,26 +81,37 @@ export class LoadingIndicator {
   start(message = 'Loading', options: LoadingOptions = {}) {
     // Hide cursor for cleaner animation
     process.stdout.write('\x1b[?25l');
-    const fullText = `${message}...`;
+    this.text = `${message}...`;
     const { shimmer = true } = options;
     
     this.interval = setInterval(() => {
       const spinner = this.frames[this.frame];
       const displayText = shimmer 
-        ? this.createShimmerText(fullText, this.shimmerFrame)
-        : fullText;
+        ? this.createShimmerText(this.text, this.shimmerFrame)
+        : this.text;
       
       // Write spinner and text, overwriting previous line
-      process.stdout.write(`\r${spinner} ${displayText}`);
+      process.stdout.write(`\r\x1b[K${spinner} ${displayText}`);
       
       // Advance animation frames
       this.frame = (this.frame + 1) % this.frames.length;
       if (shimmer) {
-        this.shimmerFrame = (this.shimmerFrame + 1) % (fullText.length + 4);
+        this.shimmerFrame = (this.shimmerFrame + 1) % (this.text.length + 4);
       }
     }, 120); // 120ms interval for smooth animation
   }
   
+  /**
+   * Replaces the message of a running spinner (no-op when stopped)
+   * 
+   * @param message - New loading message to display
+   */
+  update(message: string) {
+    if (!this.isActive) return;
+    this.text = `${message}...`;
+    this.shimmerFrame = 0;
+  }
+  
   /**
    * Stops the loading animation and cleans up the display
    */
@@ -0,0 +1,346 @@
+/**
+ * Terminal Markdown Renderer
+ *
+ * Renders model responses for the terminal: headings, lists, block quotes,
+ * tables, inline emphasis and code, and fenced code blocks with simple
+ * syntax highlighting. Works on a stream of chunks by buffering until a
+ * block boundary: ordinary lines are emitted once complete, while code
+ * blocks and tables are held until they end so they can be laid out whole.
+ */
+
+import chalk from "chalk";
+
+/** ANSI escape sequences, ignored when measuring widths */
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g;
+
+/** Opening or closing code fence (``` or ~~~, optionally with a language) */
+const FENCE_PATTERN = /^(\s*)(`{3,}|~{3,})\s*([\w+#.-]*)/;
+
+/** Table separator row, e.g. |---|:---:| */
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+/** Keywords highlighted in fenced code, across common languages */
+const CODE_KEYWORDS = new Set([
+  "as", "async", "await", "break", "case", "catch", "class", "const",
+  "continue", "def", "default", "do", "done", "elif", "else", "enum", "esac",
+  "export", "extends", "fi", "fn", "for", "from", "func", "function", "if",
+  "impl", "import", "in", "interface", "let", "match", "mut", "new", "package",
+  "pub", "return", "select", "self", "static", "struct", "switch", "then",
+  "this", "throw", "try", "type", "use", "var", "while", "with", "yield",
+  "true", "false", "null", "None", "True", "False", "undefined", "nil",
+]);
+
+/** Languages whose line comments start with # rather than // */
+const HASH_COMMENT_LANGUAGES = new Set([
+  "bash", "sh", "shell", "zsh", "fish", "console", "python", "py", "ruby",
+  "rb", "yaml", "yml", "toml", "dockerfile", "make", "makefile", "perl", "r",
+  "ini", "conf", "powershell", "ps1",
+]);
+
+/**
+ * Visible width of a string, ignoring color codes
+ */
+function visibleWidth(text: string): number {
+  return text.replace(ANSI_PATTERN, "").length;
+}
+
+/**
+ * Width used for horizontal rules
+ */
+function ruleWidth(): number {
+  return Math.min(process.stdout.columns || 80, 80);
+}
+
+/**
+ * Applies emphasis, links and inline code to a line of text
+ */
+export function renderInline(text: string): string {
+  // Split out code spans first so their contents aren't formatted
+  return text
+    .split(/(`[^`]+`)/)
+    .map((part) => {
+      if (part.length > 2 && part.startsWith("`") && part.endsWith("`")) {
+        return chalk.cyan(part.slice(1, -1));
+      }
+      return part
+        .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, a, b) => chalk.bold(a ?? b))
+        .replace(
+          /(^|[^*\w])\*(?!\s)(.+?)\*(?!\w)|(^|[^_\w])_(?!\s)(.+?)_(?!\w)/g,
+          (_, pa, a, pb, b) => `${pa ?? pb}${chalk.italic(a ?? b)}`,
+        )
+        .replace(/~~(.+?)~~/g, (_, a) => chalk.strikethrough(a))
+        .replace(
+          /\[([^\]]+)\]\(([^)\s]+)\)/g,
+          (_, label, url) => `${chalk.underline(label)} ${chalk.gray(`(${url})`)}`,
+        );
+    })
+    .join("");
+}
+
+/**
+ * Highlights one line of code
+ */
+function highlightCodeLine(line: string, language: string): string {
+  const comment = HASH_COMMENT_LANGUAGES.has(language) ? "#" : "//";
+  const tokenPattern =
+    comment === "#"
+      ? /(#.*$)|("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|(\b\d+(?:\.\d+)?\b)|([A-Za-z_][\w-]*)/g
+      : /(\/\/.*$)|("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|`(?:[^`\\]|\\.)*`)|(\b\d+(?:\.\d+)?\b)|([A-Za-z_]\w*)/g;
+
+  return line.replace(
+    tokenPattern,
+    (match, commentText, stringText, numberText, word, offset: number) => {
+      // `#` only starts a shell comment at the start of a word
+      if (commentText && comment === "#" && offset > 0 && !/\s/.test(line[offset - 1]!)) {
+        return match;
+      }
+      if (commentText) return chalk.gray(commentText);
+      if (stringText) return chalk.green(stringText);
+      if (numberText) return chalk.yellow(numberText);
+      if (word && CODE_KEYWORDS.has(word)) return chalk.magenta(word);
+      return match;
+    },
+  );
+}
+
+/**
+ * Renders a fenced code block
+ */
+function renderCodeBlock(lines: string[], language: string): string[] {
+  const normalized = language.toLowerCase();
+  const label = language ? [chalk.gray(`  ${language}`)] : [];
+  return [
+    ...label,
+    ...lines.map((line) => `  ${highlightCodeLine(line, normalized)}`),
+  ];
+}
+
+/**
+ * Splits a table row into trimmed cells
+ */
+function splitTableRow(row: string): string[] {
+  return row
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim());
+}
+
+/**
+ * Renders a table with aligned columns
+ */
+function renderTable(rows: string[]): string[] {
+  const header = splitTableRow(rows[0]!);
+  const alignments = splitTableRow(rows[1]!).map((cell) =>
+    cell.endsWith(":") ? (cell.startsWith(":") ? "center" : "right") : "left",
+  );
+  const body = rows.slice(2).map((row) => splitTableRow(row).map(renderInline));
+  const cells = [header.map((cell) => chalk.bold(renderInline(cell))), ...body];
+
+  const columns = Math.max(...cells.map((row) => row.length));
+  const widths = Array.from({ length: columns }, (_, column) =>
+    Math.max(...cells.map((row) => visibleWidth(row[column] || ""))),
+  );
+
+  const pad = (text: string, column: number): string => {
+    const space = widths[column]! - visibleWidth(text);
+    switch (alignments[column]) {
+      case "right":
+        return " ".repeat(space) + text;
+      case "center":
+        return (
+          " ".repeat(Math.floor(space / 2)) + text + " ".repeat(Math.ceil(space / 2))
+        );
+      default:
+        return text + " ".repeat(space);
+    }
+  };
+  const formatRow = (row: string[]): string =>
+    widths.map((_, column) => pad(row[column] || "", column)).join(chalk.gray(" │ "));
+
+  return [
+    formatRow(cells[0]!),
+    chalk.gray(widths.map((width) => "─".repeat(width)).join("─┼─")),
+    ...cells.slice(1).map(formatRow),
+  ];
+}
+
+/**
+ * Renders a single line outside code blocks and tables
+ */
+function renderLine(line: string): string {
+  const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+  if (heading) {
+    const text = renderInline(heading[2]!);
+    return heading[1]!.length === 1
+      ? chalk.bold.underline(text)
+      : chalk.bold(text);
+  }
+
+  if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+    return chalk.gray("─".repeat(ruleWidth()));
+  }
+
+  const quote = line.match(/^\s*>\s?(.*)$/);
+  if (quote) {
+    return chalk.gray("│ ") + chalk.italic(renderInline(quote[1]!));
+  }
+
+  const task = line.match(/^(\s*)[-*+]\s+\[([ xX])\]\s+(.*)$/);
+  if (task) {
+    const box = task[2] === " " ? "☐" : chalk.green("☑");
+    return `${task[1]}${box} ${renderInline(task[3]!)}`;
+  }
+
+  const bullet = line.match(/^(\s*)[-*+]\s+(.*)$/);
+  if (bullet) {
+    return `${bullet[1]}${chalk.cyan("•")} ${renderInline(bullet[2]!)}`;
+  }
+
+  const numbered = line.match(/^(\s*)(\d+[.)])\s+(.*)$/);
+  if (numbered) {
+    return `${numbered[1]}${chalk.cyan(numbered[2]!)} ${renderInline(numbered[3]!)}`;
+  }
+
+  return renderInline(line);
+}
+
+/**
+ * Incremental markdown renderer for streamed text
+ *
+ * Call `write` with each chunk as it arrives and `end` once the stream is
+ * done; rendered output is passed to the sink as soon as each block is
+ * complete.
+ */
+export class MarkdownRenderer {
+  /** Text received after the last complete line */
+  private partial = "";
+
+  /** Open code block, if any */
+  private code: { fence: string; language: string; lines: string[] } | null =
+    null;
+
+  /** Table rows buffered until the table ends */
+  private table: string[] = [];
+
+  /** Line that may be a table header, waiting for the separator row */
+  private pendingHeader: string | null = null;
+
+  constructor(private sink: (text: string) => void) {}
+
+  /**
+   * Adds a chunk of streamed text
+   */
+  write(chunk: string): void {
+    const lines = (this.partial + chunk).split("\n");
+    this.partial = lines.pop() ?? "";
+    for (const line of lines) {
+      this.processLine(line);
+    }
+  }
+
+  /**
+   * Flushes everything still buffered (an unterminated code block or table
+   * is rendered as-is)
+   */
+  end(): void {
+    if (this.partial) {
+      this.processLine(this.partial);
+      this.partial = "";
+    }
+    this.flushPendingHeader();
+    this.flushTable();
+    if (this.code) {
+      this.emit(renderCodeBlock(this.code.lines, this.code.language));
+      this.code = null;
+    }
+  }
+
+  private emit(lines: string[]): void {
+    if (lines.length > 0) {
+      this.sink(lines.join("\n") + "\n");
+    }
+  }
+
+  private processLine(line: string): void {
+    if (this.code) {
+      const fence = line.match(FENCE_PATTERN);
+      if (fence && fence[2]!.startsWith(this.code.fence) && !fence[3]) {
+        this.emit(renderCodeBlock(this.code.lines, this.code.language));
+        this.code = null;
+      } else {
+        this.code.lines.push(line);
+      }
+      return;
+    }
+
+    if (this.table.length > 0) {
+      if (line.includes("|") && line.trim()) {
+        this.table.push(line);
+        return;
+      }
+      this.flushTable();
+    }
+
+    if (this.pendingHeader !== null) {
+      if (TABLE_SEPARATOR_PATTERN.test(line)) {
+        this.table = [this.pendingHeader, line];
+        this.pendingHeader = null;
+        return;
+      }
+      this.flushPendingHeader();
+    }
+
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      this.code = { fence: fence[2]!, language: fence[3] || "", lines: [] };
+      return;
+    }
+
+    // A line with pipes may start a table; wait for the separator row
+    if (line.includes("|") && line.trim()) {
+      this.pendingHeader = line;
+      return;
+    }
+
+    this.emit([renderLine(line)]);
+  }
+
+  private flushPendingHeader(): void {
+    if (this.pendingHeader !== null) {
+      this.emit([renderLine(this.pendingHeader)]);
+      this.pendingHeader = null;
+    }
+  }
+
+  private flushTable(): void {
+    if (this.table.length > 0) {
+      this.emit(renderTable(this.table));
+      this.table = [];
+    }
+  }
+}
+
+/**
+ * Renders a complete markdown document
+ */
+export function renderMarkdown(text: string): string {
+  let output = "";
+  const renderer = new MarkdownRenderer((rendered) => {
+    output += rendered;
+  });
+  renderer.write(text);
+  renderer.end();
+  return output.replace(/\n$/, "");
+}
+
+/**
+ * Whether responses should be rendered as markdown
+ *
+ * Rendering is skipped when stdout isn't a terminal, so piped output stays
+ * plain text, and when the user passed --raw.
+ */
+export function shouldRenderMarkdown(raw?: boolean): boolean {
+  return !raw && Boolean(process.stdout.isTTY);
+}
@@ -13,77 +13,129 @@ import { createMistral } from "@ai-sdk/mistral";
 import { createGoogleGenerativeAI } from "@ai-sdk/google";
 import { createGroq } from "@ai-sdk/groq";
 import { createOpenRouter } from "@openrouter/ai-sdk-provider";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
 
 import {
   generateText,
   generateObject,
   streamText,
   type LanguageModel,
+  type LanguageModelUsage,
   type ModelMessage,
   APICallError,
 } from "ai";
 import { z } from "zod";
+import chalk from "chalk";
 import { LLMJSONParser } from "ai-json-fixer";
 import {
+  findProvider,
   getDefaultProvider,
   type loadConfig,
   type ProviderConfig,
+  type RetryConfig,
+  type VaultConfig,
 } from "./config";
+import { missingApiKeyHint, resolveApiKey } from "./credentials";
+import { recordUsage } from "./usage";
+import { loading } from "../components/ui/loading";
+import { MarkdownRenderer } from "../components/ui/markdown";
+import { PROVIDERS } from "./providers";
 
 /**
  * Factory function for creating Anthropic provider
  */
-export const createAiSdkAnthropic = (apiKey: string) =>
+export const createAiSdkAnthropic = (apiKey?: string, baseURL?: string) =>
   createAnthropic({
     apiKey,
+    baseURL,
   });
 
 /**
  * Factory function for creating OpenAI provider
  */
-export const createAiSdkOpenAI = (apiKey: string) =>
+export const createAiSdkOpenAI = (apiKey?: string, baseURL?: string) =>
   createOpenAI({
     apiKey,
+    baseURL,
   });
 
 /**
  * Factory function for creating xAI provider
  */
-export const createAiSdkXai = (apiKey: string) =>
+export const createAiSdkXai = (apiKey?: string, baseURL?: string) =>
   createXai({
     apiKey,
+    baseURL,
   });
 
 /**
  * Factory function for creating Mistral provider
  */
-export const createAiSdkMistral = (apiKey: string) =>
+export const createAiSdkMistral = (apiKey?: string, baseURL?: string) =>
   createMistral({
     apiKey,
+    baseURL,
   });
 
 /**
  * Factory function for creating Google Generative AI provider
  */
-export const createAiSdkGoogle = (apiKey: string) =>
+export const createAiSdkGoogle = (apiKey?: string, baseURL?: string) =>
   createGoogleGenerativeAI({
     apiKey,
+    baseURL,
   });
 
 /**
  * Factory function for creating Groq provider
  */
-export const createAiSdkGroq = (apiKey: string) =>
+export const createAiSdkGroq = (apiKey?: string, baseURL?: string) =>
   createGroq({
     apiKey,
+    baseURL,
   });
 
 /**
  * Factory function for creating OpenRouter provider
  */
-export const createAiSdkOpenRouter = (apiKey: string) =>
+export const createAiSdkOpenRouter = (apiKey?: string, baseURL?: string) =>
   createOpenRouter({
     apiKey,
+    baseURL,
+  });
+
+/**
+ * Factory function for creating Ollama provider (OpenAI-compatible endpoint)
+ */
+export const createAiSdkOllama = (apiKey?: string, baseURL?: string) =>
+  createOpenAICompatible({
+    name: "ollama",
+    apiKey,
+    baseURL: requireBaseUrl("ollama", baseURL),
+  });
+
+/**
+ * Factory function for creating LM Studio provider (OpenAI-compatible endpoint)
+ */
+export const createAiSdkLmStudio = (apiKey?: string, baseURL?: string) =>
+  createOpenAICompatible({
+    name: "lmstudio",
+    apiKey,
+    baseURL: requireBaseUrl("lmstudio", baseURL),
+  });
+
+/**
+ * Factory function for creating a generic OpenAI-compatible provider
+ * (llama.cpp server, vLLM, LocalAI, etc.)
+ */
+export const createAiSdkOpenAICompatible = (
+  apiKey?: string,
+  baseURL?: string,
+) =>
+  createOpenAICompatible({
+    name: "openai-compatible",
+    apiKey,
+    baseURL: requireBaseUrl("openai-compatible", baseURL),
   });
 
 /**
@@ -96,7 +148,10 @@ export type SupportedProvider =
   | "mistral"
   | "google"
   | "groq"
-  | "openrouter";
+  | "openrouter"
+  | "ollama"
+  | "lmstudio"
+  | "openai-compatible";
 
 /**
  * Provider factory map for type safety
@@ -109,8 +164,21 @@ const PROVIDER_FACTORIES = {
   google: createAiSdkGoogle,
   groq: createAiSdkGroq,
   openrouter: createAiSdkOpenRouter,
+  ollama: createAiSdkOllama,
+  lmstudio: createAiSdkLmStudio,
+  "openai-compatible": createAiSdkOpenAICompatible,
 } as const;
 
+/**
+ * Ensures OpenAI-compatible providers have an endpoint to talk to
+ */
+function requireBaseUrl(provider: string, baseURL?: string): string {
+  if (!baseURL) {
+    throw new Error(`Base URL is required for ${provider}`);
+  }
+  return baseURL;
+}
+
 /**
  * AI Service error types
  */
@@ -133,7 +201,10 @@ export class UnsupportedProviderError extends AIServiceError {
 
 export class ModelCreationError extends AIServiceError {
   constructor(provider: string, cause?: unknown) {
-    super(`Failed to create model for provider: ${provider}`, cause);
+    super(
+      `Failed to create model for provider: ${provider}${cause instanceof Error ? ` (${cause.message})` : ""}`,
+      cause,
+    );
     this.name = "ModelCreationError";
   }
 }
@@ -183,6 +254,143 @@ function extractAIError(error: unknown): string {
   return "Unknown error occurred";
 }
 
+/**
+ * Retry policy applied to every AI call
+ */
+export type RetryPolicy = Required<RetryConfig>;
+
+/**
+ * Default retry policy: 3 attempts, 1s base delay, 30s cap
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+/** Network error codes worth retrying */
+const RETRYABLE_ERROR_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EPIPE",
+];
+
+/**
+ * Determines whether an AI call failed for a transient reason
+ *
+ * Rate limits (429), server errors (5xx) and network failures are retried
+ * (and handed to the next provider in a fallback chain). Authentication,
+ * permission and not-found errors (401/403/404) and other client errors
+ * are fatal.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (APICallError.isInstance(error)) {
+    if (error.statusCode === undefined) return true; // connection never completed
+    return error.statusCode === 429 || error.statusCode >= 500;
+  }
+
+  if (error && typeof error === "object") {
+    const code =
+      (error as { code?: unknown }).code ??
+      (error as { cause?: { code?: unknown } }).cause?.code;
+    if (typeof code === "string" && RETRYABLE_ERROR_CODES.includes(code)) {
+      return true;
+    }
+  }
+
+  // fetch() reports unreachable hosts as a bare TypeError
+  return error instanceof TypeError && /fetch failed/i.test(error.message);
+}
+
+/**
+ * Computes how long to wait before the next attempt
+ *
+ * Honors `retry-after-ms` / `Retry-After` response headers when present,
+ * otherwise uses exponential backoff with jitter. Always capped at
+ * `maxDelayMs`.
+ */
+function getRetryDelay(
+  error: unknown,
+  attempt: number,
+  policy: RetryPolicy,
+): number {
+  if (APICallError.isInstance(error) && error.responseHeaders) {
+    const headers = error.responseHeaders;
+    const retryAfterMs = Number(headers["retry-after-ms"]);
+    if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) {
+      return Math.min(retryAfterMs, policy.maxDelayMs);
+    }
+
+    const retryAfter = headers["retry-after"];
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const delay = Number.isFinite(seconds)
+        ? seconds * 1000
+        : Date.parse(retryAfter) - Date.now();
+      if (Number.isFinite(delay) && delay >= 0) {
+        return Math.min(delay, policy.maxDelayMs);
+      }
+    }
+  }
+
+  // Exponential backoff with "equal jitter": half fixed, half random
+  const exponential = Math.min(
+    policy.baseDelayMs * 2 ** (attempt - 1),
+    policy.maxDelayMs,
+  );
+  return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+/**
+ * Runs an AI call, retrying transient failures according to the policy
+ *
+ * While retrying, a running loading spinner shows "Retrying (n/max)".
+ *
+ * @param operation - The call to attempt
+ * @param retry - Policy overrides (merged over DEFAULT_RETRY_POLICY)
+ * @param shouldRetry - Extra guard (e.g. nothing streamed yet)
+ */
+async function withRetry<T>(
+  operation: () => Promise<T>,
+  retry?: RetryConfig,
+  shouldRetry: (error: unknown) => boolean = isRetryableError,
+): Promise<T> {
+  const policy = { ...DEFAULT_RETRY_POLICY, ...retry };
+  const maxAttempts = Math.max(1, Math.floor(policy.maxAttempts));
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= maxAttempts || !shouldRetry(error)) {
+        throw error;
+      }
+
+      loading.update(`Retrying (${attempt + 1}/${maxAttempts})`);
+      await new Promise((resolve) =>
+        setTimeout(resolve, getRetryDelay(error, attempt, policy)),
+      );
+    }
+  }
+}
+
+/**
+ * Records token usage of a completed call against the provider that answered
+ */
+function trackUsage(model: LanguageModel, usage?: LanguageModelUsage): void {
+  if (!usage) return;
+  const answeredBy = describeModel(model);
+  recordUsage(
+    answeredBy.provider,
+    answeredBy.model,
+    usage.inputTokens ?? 0,
+    usage.outputTokens ?? 0,
+  );
+}
+
 /**
  * Options for text generation
  */
@@ -192,6 +400,16 @@ export interface GenerateTextOptions {
   messages?: ModelMessage[];
   temperature?: number;
   maxOutputTokens?: number;
+  /** Retry policy overrides (defaults to DEFAULT_RETRY_POLICY) */
+  retry?: RetryConfig;
+}
+
+/**
+ * Options for streamed text generation
+ */
+export interface StreamTextOptions extends GenerateTextOptions {
+  /** Render markdown for the terminal instead of writing raw text */
+  markdown?: boolean;
 }
 
 /**
@@ -214,32 +432,62 @@ export interface StructuredResult<T> {
 
 /**
  * Creates a typesafe model instance for the given provider config
+ *
+ * @param vault - Vault settings for decrypting a stored API key
  */
-export function createModel(config: ProviderConfig): LanguageModel {
+export function createModel(
+  config: ProviderConfig,
+  vault?: VaultConfig,
+): LanguageModel {
   const provider = config.provider as SupportedProvider;
 
   if (!isValidProvider(provider)) {
     throw new UnsupportedProviderError(provider);
   }
 
+  const providerInfo = PROVIDERS[provider];
+  const baseUrl = config.baseUrl || providerInfo?.defaultBaseUrl;
+
   try {
-    if (!config.apiKey) throw new Error(`API key is required for ${provider}`);
+    // Local providers authenticate by endpoint; cloud providers need a key
+    const apiKey = resolveApiKey(config, vault);
+    if (!apiKey && !providerInfo?.local) {
+      throw new Error(
+        `API key is required for ${config.alias}. ${missingApiKeyHint(config)}`,
+      );
+    }
 
     switch (provider) {
       case "anthropic":
-        return createAiSdkAnthropic(config.apiKey)(config.preferredModel);
+        return createAiSdkAnthropic(apiKey, baseUrl)(
+          config.preferredModel,
+        );
       case "openai":
-        return createAiSdkOpenAI(config.apiKey)(config.preferredModel);
+        return createAiSdkOpenAI(apiKey, baseUrl)(config.preferredModel);
       case "xai":
-        return createAiSdkXai(config.apiKey)(config.preferredModel);
+        return createAiSdkXai(apiKey, baseUrl)(config.preferredModel);
       case "mistral":
-        return createAiSdkMistral(config.apiKey)(config.preferredModel);
+        return createAiSdkMistral(apiKey, baseUrl)(
+          config.preferredModel,
+        );
       case "google":
-        return createAiSdkGoogle(config.apiKey)(config.preferredModel);
+        return createAiSdkGoogle(apiKey, baseUrl)(config.preferredModel);
       case "groq":
-        return createAiSdkGroq(config.apiKey)(config.preferredModel);
+        return createAiSdkGroq(apiKey, baseUrl)(config.preferredModel);
       case "openrouter":
-        return createAiSdkOpenRouter(config.apiKey)(config.preferredModel);
+        return createAiSdkOpenRouter(apiKey, baseUrl)(
+          config.preferredModel,
+        );
+      case "ollama":
+        return createAiSdkOllama(apiKey, baseUrl)(config.preferredModel);
+      case "lmstudio":
+        return createAiSdkLmStudio(apiKey, baseUrl)(
+          config.preferredModel,
+        );
+      case "openai-compatible":
+        return createAiSdkOpenAICompatible(apiKey, baseUrl)(
+          config.preferredModel,
+        );
       default:
         throw new UnsupportedProviderError(provider);
     }
@@ -269,12 +517,14 @@ export async function generateAIText(
       system: options.system,
       temperature: options.temperature,
       maxOutputTokens: options.maxOutputTokens,
+      maxRetries: 0, // retries are handled by withRetry
       ...(options.messages
         ? { messages: options.messages }
         : { prompt: options.prompt || "" }),
     };
 
-    const result = await generateText(params);
+    const result = await withRetry(() => generateText(params), options.retry);
+    trackUsage(model, result.usage);
     return result.text;
   } catch (error) {
     const errorMessage = extractAIError(error);
@@ -284,52 +534,76 @@ export async function generateAIText(
 
 /**
  * Streams text using the AI model and writes to stdout
+ *
+ * Failures before the first chunk are retried; once output has been
+ * written the error is surfaced as-is to avoid duplicated text. With
+ * `markdown` set, output is rendered block by block as it arrives.
+ *
+ * @returns The complete streamed text
  */
 export async function streamAIText(
   model: LanguageModel,
-  options: GenerateTextOptions,
+  options: StreamTextOptions,
   onFirstChunk?: () => void,
   onStreamError?: (error: unknown) => void,
-): Promise<void> {
-  try {
-    const onErrorHandler = (event: { error: unknown }) => {
-      // Stop spinner immediately when error occurs
-      if (onFirstChunk) {
-        onFirstChunk();
-      }
-      if (onStreamError) {
-        onStreamError(event.error);
-      }
-      // Extract and throw the error with proper message
-      const errorMessage = extractAIError(event.error);
-      throw new AIServiceError(errorMessage, event.error);
-    };
-
-    type StreamTextParams = Parameters<typeof streamText>[0];
-    const params: StreamTextParams = {
-      model,
-      system: options.system,
-      temperature: options.temperature,
-      maxOutputTokens: options.maxOutputTokens,
-      onError: onErrorHandler,
-      ...(options.messages
-        ? { messages: options.messages }
-        : { prompt: options.prompt || "" }),
-    };
-
-    const result = streamText(params);
+): Promise<string> {
+  let hasOutput = false;
+  let text = "";
 
-    let isFirstChunk = true;
-    for await (const textPart of result.textStream) {
-      if (isFirstChunk && onFirstChunk) {
-        onFirstChunk();
-        isFirstChunk = false;
-      }
-      process.stdout.write(textPart);
-    }
-    process.stdout.write("\n");
+  try {
+    await withRetry(
+      async () => {
+        // Errors inside the stream are reported here instead of being thrown
+        let streamError: unknown;
+
+        type StreamTextParams = Parameters<typeof streamText>[0];
+        const params: StreamTextParams = {
+          model,
+          system: options.system,
+          temperature: options.temperature,
+          maxOutputTokens: options.maxOutputTokens,
+          maxRetries: 0, // retries are handled by withRetry
+          onError: (event: { error: unknown }) => {
+            streamError = event.error;
+          },
+          ...(options.messages
+            ? { messages: options.messages }
+            : { prompt: options.prompt || "" }),
+        };
+
+        const result = streamText(params);
+        const renderer = options.markdown
+          ? new MarkdownRenderer((rendered) => process.stdout.write(rendered))
+          : undefined;
+
+        for await (const textPart of result.textStream) {
+          if (!hasOutput && onFirstChunk) {
+            onFirstChunk();
+          }
+          hasOutput = true;
+          text += textPart;
+          if (renderer) {
+            renderer.write(textPart);
+          } else {
+            process.stdout.write(textPart);
+          }
+        }
+
+        // Show whatever arrived before an error, too
+        renderer?.end();
+        if (streamError) {
+          throw streamError;
+        }
+        if (!renderer) {
+          process.stdout.write("\n");
+        }
+        trackUsage(model, await result.totalUsage);
+      },
+      options.retry,
+      (error) => !hasOutput && isRetryableError(error),
+    );
   } catch (error) {
-    // Handle any other errors that might occur
+    // Stop spinner and notify caller before surfacing the error
     if (onFirstChunk) {
       onFirstChunk();
     }
@@ -344,6 +618,8 @@ export async function streamAIText(
     const errorMessage = extractAIError(error);
     throw new AIServiceError(errorMessage, error);
   }
+
+  return text;
 }
 
 /**
@@ -420,14 +696,27 @@ export async function generateAIObject<T>(
       system: options.system,
       temperature: options.temperature,
       maxOutputTokens: options.maxOutputTokens,
+      maxRetries: 0, // retries are handled by withRetry
       ...(options.messages
         ? { messages: options.messages }
         : { prompt: options.prompt || "" }),
     };
 
-    const result = await generateObject(params);
+    const result = await withRetry(
+      () => generateObject(params),
+      options.retry,
+    );
+    trackUsage(model, result.usage);
     return result.object;
   } catch (error) {
+    // Transport and auth failures would fail the JSON fallback the same way
+    const isAuthError =
+      APICallError.isInstance(error) &&
+      (error.statusCode === 401 || error.statusCode === 403);
+    if (isAuthError || isRetryableError(error)) {
+      throw new AIServiceError(extractAIError(error), error);
+    }
+
     // Fallback to structured generation with JSON parsing
     const structuredResult = await generateStructured(model, {
       ...options,
@@ -444,15 +733,17 @@ export async function generateAIObject<T>(
 
 /**
  * Validates that a provider exists in the configuration
+ *
+ * @param provider - Alias of the entry (or its provider type, if unambiguous)
  */
 export function validateProvider(
   config: ReturnType<typeof loadConfig>,
   provider: string,
 ): ProviderConfig {
-  const providerConfig = config.providers.find((p) => p.provider === provider);
+  const providerConfig = findProvider(config, provider);
   if (!providerConfig) {
     const availableProviders = config.providers
-      .map((p) => p.provider)
+      .map((p) => p.alias)
       .join(", ");
     throw new Error(
       `Provider '${provider}' not found in configuration. Available providers: ${availableProviders || "none"}`,
@@ -462,13 +753,143 @@ export function validateProvider(
 }
 
 /**
- * Creates a model with optional provider/model override
+ * Concrete (non-string) language model accepted by the AI SDK
  */
-export function createModelWithOverride(
+type LanguageModelInstance = Exclude<LanguageModel, string>;
+
+/**
+ * A provider entry in a fallback chain
+ */
+export interface FallbackCandidate {
+  /** Provider type (e.g. "openai") */
+  provider: string;
+  /** Alias of the configuration entry */
+  alias: string;
+  /** Model created for that provider */
+  model: LanguageModelInstance;
+}
+
+/**
+ * Composite model that tries each configured provider in order
+ *
+ * Calls go to the first candidate; when it fails with a transient error
+ * (see isRetryableError) the same call is replayed against the next one.
+ * The provider that produced the last successful response is exposed via
+ * `answeredBy` so callers can report it.
+ */
+export class FallbackLanguageModel implements LanguageModelInstance {
+  readonly specificationVersion = "v2";
+
+  /** Provider and model that produced the most recent successful response */
+  answeredBy?: { provider: string; alias: string; modelId: string };
+
+  constructor(private readonly candidates: FallbackCandidate[]) {
+    if (candidates.length === 0) {
+      throw new Error("Fallback chain requires at least one provider");
+    }
+  }
+
+  get provider(): string {
+    return this.answeredBy?.provider ?? this.candidates[0]!.provider;
+  }
+
+  get modelId(): string {
+    return this.answeredBy?.modelId ?? this.candidates[0]!.model.modelId;
+  }
+
+  /** Alias of the entry that answered last (or the primary) */
+  get alias(): string {
+    return this.answeredBy?.alias ?? this.candidates[0]!.alias;
+  }
+
+  get supportedUrls(): LanguageModelInstance["supportedUrls"] {
+    return this.candidates[0]!.model.supportedUrls;
+  }
+
+  doGenerate(
+    options: Parameters<LanguageModelInstance["doGenerate"]>[0],
+  ): ReturnType<LanguageModelInstance["doGenerate"]> {
+    return this.tryEach((model) => model.doGenerate(options));
+  }
+
+  doStream(
+    options: Parameters<LanguageModelInstance["doStream"]>[0],
+  ): ReturnType<LanguageModelInstance["doStream"]> {
+    // Connection and HTTP errors surface before the stream is returned,
+    // so falling back here never replays partially streamed output
+    return this.tryEach((model) => model.doStream(options));
+  }
+
+  private async tryEach<T>(
+    call: (model: LanguageModelInstance) => PromiseLike<T>,
+  ): Promise<T> {
+    let lastError: unknown;
+
+    for (const [index, candidate] of this.candidates.entries()) {
+      try {
+        const result = await call(candidate.model);
+        this.answeredBy = {
+          provider: candidate.provider,
+          alias: candidate.alias,
+          modelId: candidate.model.modelId,
+        };
+        return result;
+      } catch (error) {
+        lastError = error;
+        const hasNext = index < this.candidates.length - 1;
+        if (!hasNext || !isRetryableError(error)) {
+          throw error;
+        }
+      }
+    }
+
+    throw lastError;
+  }
+}
+
+/** Aliases of the entries models were created from (see modelAlias) */
+const modelAliases = new WeakMap<object, string>();
+
+/**
+ * Returns the alias of the configuration entry a model was created from
+ *
+ * For fallback chains this is the entry that answered last (or the primary).
+ */
+export function modelAlias(model: LanguageModel): string | undefined {
+  if (model instanceof FallbackLanguageModel) {
+    return model.alias;
+  }
+  return typeof model === "string" ? undefined : modelAliases.get(model);
+}
+
+/**
+ * Describes which provider and model a LanguageModel resolves to
+ *
+ * For fallback chains this is the provider that answered last (or the
+ * primary if nothing has answered yet). SDK provider ids such as
+ * "openai.responses" are reduced to the configuration key ("openai").
+ */
+export function describeModel(model: LanguageModel): {
+  provider: string;
+  model: string;
+} {
+  if (typeof model === "string") {
+    return { provider: "gateway", model };
+  }
+  return {
+    provider: model.provider.split(".")[0] || model.provider,
+    model: model.modelId,
+  };
+}
+
+/**
+ * Resolves the provider configuration selected by the CLI overrides
+ */
+function resolveProviderConfig(
   config: ReturnType<typeof loadConfig>,
   providerOverride?: string,
   modelOverride?: string,
-): ReturnType<typeof createModel> {
+): ProviderConfig {
   let providerConfig: ProviderConfig;
 
   if (providerOverride) {
@@ -491,5 +912,60 @@ export function createModelWithOverride(
     }
   }
 
-  return createModel(providerConfig);
+  return providerConfig;
+}
+
+/**
+ * Creates a model with optional provider/model override
+ *
+ * When the configuration defines `fallbackProviders`, the selected provider
+ * is placed first and the remaining providers follow in the configured order,
+ * wrapped in a FallbackLanguageModel.
+ */
+export function createModelWithOverride(
+  config: ReturnType<typeof loadConfig>,
+  providerOverride?: string,
+  modelOverride?: string,
+): ReturnType<typeof createModel> {
+  const providerConfig = resolveProviderConfig(
+    config,
+    providerOverride,
+    modelOverride,
+  );
+  const primary = createModel(providerConfig, config.vault);
+  if (typeof primary !== "string") {
+    modelAliases.set(primary, providerConfig.alias);
+  }
+
+  const fallbackNames = (config.fallbackProviders || []).filter(
+    (name) => name !== providerConfig.alias,
+  );
+  if (fallbackNames.length === 0 || typeof primary === "string") {
+    return primary;
+  }
+
+  const candidates: FallbackCandidate[] = [
+    { provider: providerConfig.provider, alias: providerConfig.alias, model: primary },
+  ];
+  for (const name of fallbackNames) {
+    // A fallback without a usable key shouldn't stop the selected provider
+    let entry: ProviderConfig;
+    let model: LanguageModel;
+    try {
+      entry = validateProvider(config, name);
+      model = createModel(entry, config.vault);
+    } catch (error) {
+      console.error(
+        chalk.yellow(
+          `⚠️  Skipping fallback provider ${name}: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+      continue;
+    }
+    if (typeof model !== "string") {
+      candidates.push({ provider: entry.provider, alias: entry.alias, model });
+    }
+  }
+
+  return new FallbackLanguageModel(candidates);
 }
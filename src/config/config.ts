@@ -3,62 +3,259 @@
  *
  * Handles loading, saving, and manipulating configuration data for AI providers.
  * Manages the ~/.config/aish/auth.json file and provides utilities for
- * provider management, API key masking, and legacy config migration.
+ * provider management and API key masking. The file is migrated and
+ * validated on load (see migrations.ts and schema.ts), and API keys are
+ * encrypted on save by the credential vault (see vault.ts).
  */
 
+import chalk from "chalk";
 import { join } from "path";
-import { homedir } from "os";
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { chmodSync, existsSync, readFileSync, statSync } from "fs";
+import { sealConfig } from "./vault";
+import {
+  backupConfigFile,
+  CONFIG_DIR,
+  CONFIG_DIR_MODE,
+  CONFIG_FILE,
+  CONFIG_FILE_MODE,
+  ensureConfigDir,
+  withConfigLock,
+  writeFileAtomic,
+} from "./storage";
+import { CONFIG_VERSION, migrateConfig } from "./migrations";
+import {
+  ConfigError,
+  formatConfigIssue,
+  validateConfig,
+  type ConfigValidation,
+} from "./schema";
+
+// The file locations are defined in storage.ts, which can't import this module
+export { CONFIG_DIR, CONFIG_FILE, ensureConfigDir };
 
 /**
  * Configuration for a single AI provider
  */
 export interface ProviderConfig {
+  /** Unique name of this entry (e.g., 'openai-work'); defaults to the provider type */
+  alias: string;
   /** Provider identifier (e.g., 'anthropic', 'openai') */
   provider: string;
   /** Preferred model name to use with this provider */
   preferredModel: string;
   /** API key for authentication (cloud providers) */
   apiKey?: string;
+  /** Shell command that prints the API key (e.g. "pass show openai"), run at model creation */
+  apiKeyCommand?: string;
   /** Base URL for local providers */
   baseUrl?: string;
+  /** System prompts used with this provider (override the global ones) */
+  systemPrompts?: SystemPromptConfig;
+}
+
+/**
+ * Custom system prompts for `ask` and `command`
+ */
+export interface SystemPromptConfig {
+  /** System prompt for `aish ask` */
+  ask?: string;
+  /** Role description for `aish command` (the JSON response rules are always added) */
+  command?: string;
+}
+
+/**
+ * Reusable prompt, invoked with `aish ask --template <name>`
+ */
+export interface PromptTemplate {
+  /** Prompt text; supports {{input}}, {{cwd}}, {{os}} and {{file:path}} */
+  prompt: string;
+  /** System prompt for this template (overrides the ask system prompt) */
+  system?: string;
+  /** Short description shown when listing templates */
+  description?: string;
+  /** Project directory of a template from a project file (set by aish); {{file:path}} can't leave it */
+  root?: string;
+}
+
+/**
+ * Retry policy for AI calls (all fields optional, defaults apply)
+ */
+export interface RetryConfig {
+  /** Total attempts including the first one */
+  maxAttempts?: number;
+  /** Base delay for exponential backoff in milliseconds */
+  baseDelayMs?: number;
+  /** Upper bound for a single delay in milliseconds */
+  maxDelayMs?: number;
+}
+
+/**
+ * User-defined rule that blocks matching commands
+ */
+export interface SafetyRuleConfig {
+  /** Regular expression tested against the command and each simple command in it */
+  pattern: string;
+  /** Reason shown when the rule blocks a command */
+  reason?: string;
+}
+
+/**
+ * Local safety rules applied to generated commands
+ */
+export interface SafetyConfig {
+  /** Additional deny rules */
+  rules?: SafetyRuleConfig[];
+  /** Built-in rule ids to turn off (e.g. "pipe-to-shell") */
+  disabledRules?: string[];
+}
+
+/**
+ * Secret masking applied to everything sent to a model
+ */
+export interface RedactionConfig {
+  /** Set to false to send prompts unmodified */
+  enabled?: boolean;
+  /** Set to false to turn off high-entropy string detection */
+  entropy?: boolean;
+  /** Extra regular expressions whose matches are masked */
+  patterns?: string[];
+}
+
+/**
+ * Command history settings
+ */
+export interface HistoryConfig {
+  /** Set to false to stop recording `aish command` runs */
+  enabled?: boolean;
+}
+
+/**
+ * Approval policy for generated commands
+ */
+export interface CommandPolicy {
+  /** Command prefix (e.g. "kubectl get") or /regex/ matched against each simple command */
+  match: string;
+  /** allow: run without prompting, deny: never run, confirm: require typed confirmation */
+  action: "allow" | "deny" | "confirm";
+  /** Only apply in this directory and its subdirectories (~ is expanded) */
+  directory?: string;
+  /** Reason shown when the policy applies */
+  reason?: string;
+}
+
+/**
+ * How stored API keys are encrypted
+ */
+export interface VaultConfig {
+  /** keyfile: random key in ~/.config/aish/vault.key; passphrase: scrypt-derived key */
+  mode: "keyfile" | "passphrase";
+  /** scrypt salt (base64, passphrase mode) */
+  salt?: string;
+  /** scrypt cost parameter N (passphrase mode) */
+  cost?: number;
+  /** Known value encrypted with the key, to detect a wrong passphrase */
+  check?: string;
+}
+
+/**
+ * Settings of a named profile (see profiles.ts)
+ */
+export interface ProfileConfig {
+  /** Providers available in this profile */
+  providers: ProviderConfig[];
+  /** Alias of the default provider in this profile */
+  defaultProvider?: string;
+  /** Fallback order (aliases) in this profile */
+  fallbackProviders?: string[];
+  /** Policies (replace the top-level ones when set) */
+  policies?: CommandPolicy[];
+  /** System prompts (replace the top-level ones when set) */
+  systemPrompts?: SystemPromptConfig;
+  /** Templates (replace the top-level ones when set) */
+  templates?: Record<string, PromptTemplate>;
+  /** Extra system prompt context (replaces the top-level one when set) */
+  context?: string;
 }
 
 /**
  * Main configuration structure containing all providers and settings
  */
 export interface Config {
+  /** Format version of the file (see migrations.ts) */
+  version?: number;
   /** Array of configured AI providers */
   providers: ProviderConfig[];
-  /** Name of the default provider to use */
+  /** Alias of the default provider to use */
   defaultProvider?: string;
+  /** Ordered provider aliases to try when the selected one fails (rate limits, outages) */
+  fallbackProviders?: string[];
+  /** Retry policy for transient AI errors */
+  retry?: RetryConfig;
+  /** Deterministic safety rules for generated commands */
+  safety?: SafetyConfig;
+  /** Allow / deny / confirm policies evaluated before the confirmation prompt */
+  policies?: CommandPolicy[];
+  /** Secret redaction for prompts, command output and context */
+  redaction?: RedactionConfig;
+  /** Persistent log of command runs */
+  history?: HistoryConfig;
+  /** Global system prompt overrides */
+  systemPrompts?: SystemPromptConfig;
+  /** Extra context appended to the ask, command and chat system prompts */
+  context?: string;
+  /** Named prompt templates */
+  templates?: Record<string, PromptTemplate>;
+  /** Encryption settings for stored API keys (managed by aish) */
+  vault?: VaultConfig;
+  /** Named profiles with their own providers; the top level is the "default" profile */
+  profiles?: Record<string, ProfileConfig>;
+  /** Profile used when neither --profile nor AISH_PROFILE is given */
+  activeProfile?: string;
 }
 
-/** Directory path for storing configuration files */
-const CONFIG_DIR = join(homedir(), ".config", "aish");
-
-/** Full path to the configuration file */
-const CONFIG_FILE = join(CONFIG_DIR, "auth.json");
+/** Whether unknown-setting warnings were already printed by this process */
+let warnedUnknownSettings = false;
 
 /**
- * Ensures the configuration directory exists
- * Creates the directory structure if it doesn't exist
+ * Lists configuration paths that other users can read or write
+ *
+ * @returns One line per path, with its mode and the fix
  */
-export function ensureConfigDir(): void {
-  if (!existsSync(CONFIG_DIR)) {
-    mkdirSync(CONFIG_DIR, { recursive: true });
+export function checkConfigPermissions(): string[] {
+  // Windows has no POSIX modes to check
+  if (process.platform === "win32") {
+    return [];
   }
+
+  const problems: string[] = [];
+  const paths: [string, number][] = [
+    [CONFIG_DIR, CONFIG_DIR_MODE],
+    [CONFIG_FILE, CONFIG_FILE_MODE],
+    [join(CONFIG_DIR, "vault.key"), CONFIG_FILE_MODE],
+    [join(CONFIG_DIR, "sessions"), CONFIG_DIR_MODE],
+    [join(CONFIG_DIR, "history.jsonl"), CONFIG_FILE_MODE],
+    [join(CONFIG_DIR, "usage.jsonl"), CONFIG_FILE_MODE],
+  ];
+  for (const [path, expected] of paths) {
+    if (!existsSync(path)) continue;
+    const mode = statSync(path).mode & 0o777;
+    if (mode & 0o077) {
+      problems.push(
+        `${path} is accessible by other users (${mode.toString(8)}). Fix: chmod ${expected.toString(8)} ${path}`,
+      );
+    }
+  }
+  return problems;
 }
 
 /**
  * Loads configuration from the auth.json file
  *
- * Handles:
- * - Missing configuration files (returns empty config)
- * - Legacy configuration format migration
- * - JSON parsing errors
+ * Older formats are migrated (after backing up the file) and the result is
+ * validated. Unknown settings are reported once on stderr and kept.
  *
  * @returns Configuration object with providers and default settings
+ * @throws ConfigError naming the file, the JSON path and what was expected
  */
 export function loadConfig(): Config {
   ensureConfigDir();
@@ -68,35 +265,126 @@ export function loadConfig(): Config {
     return { providers: [] };
   }
 
-  try {
-    const content = readFileSync(CONFIG_FILE, "utf-8");
-    const parsed = JSON.parse(content);
-
-    // Handle legacy config format (single provider at root level)
-    if (parsed.provider && parsed.model && parsed.apiKey) {
-      return {
-        providers: [
-          {
-            provider: parsed.provider,
-            preferredModel: parsed.model,
-            apiKey: parsed.apiKey,
-          },
-        ],
-        defaultProvider: parsed.provider,
-      };
+  const { validation, from, applied } = checkConfigFile(CONFIG_FILE);
+  if (!validation.config) {
+    throw new ConfigError(CONFIG_FILE, validation.errors);
+  }
+
+  if (validation.warnings.length > 0 && !warnedUnknownSettings) {
+    warnedUnknownSettings = true;
+    for (const warning of validation.warnings) {
+      console.error(
+        chalk.yellow(`⚠️  ${CONFIG_FILE}: ${formatConfigIssue(warning)}`),
+      );
     }
+  }
 
-    // Return parsed config or empty config if malformed
-    return parsed.providers ? parsed : { providers: [] };
+  if (from < CONFIG_VERSION) {
+    const backup = withConfigLock(() => {
+      const backup = backupConfigFile(`v${from}`);
+      writeConfigFile(validation.config!);
+      return backup;
+    });
+    console.error(
+      chalk.gray(
+        `Migrated ${CONFIG_FILE} to version ${CONFIG_VERSION}${applied.length ? ` (${applied.join(", ")})` : ""}; backup: ${backup}`,
+      ),
+    );
+  }
+
+  return validation.config;
+}
+
+/**
+ * Reads, migrates and validates a config file without changing it
+ *
+ * @returns The validation result, the file's version and the migrations it needs
+ */
+export function checkConfigFile(path: string): {
+  validation: ConfigValidation;
+  from: number;
+  applied: string[];
+} {
+  const fail = (message: string) => ({
+    validation: { errors: [{ path: "", message }], warnings: [] },
+    from: CONFIG_VERSION,
+    applied: [],
+  });
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf-8"));
   } catch (error) {
-    console.error("Error reading config file:", error);
-    return { providers: [] };
+    return fail(
+      `not valid JSON (${error instanceof Error ? error.message : "unknown error"})`,
+    );
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return fail("expected an object at the top level");
+  }
+
+  try {
+    const { config, from, applied } = migrateConfig(
+      parsed as Record<string, unknown>,
+    );
+    return { validation: validateConfig(config), from, applied };
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : "unknown error");
+  }
+}
+
+/**
+ * Writes a config to auth.json as-is, with the current format version first
+ */
+function writeConfigFile(config: Config): void {
+  const { version: _previous, ...rest } = config;
+  writeFileAtomic(
+    CONFIG_FILE,
+    JSON.stringify({ version: CONFIG_VERSION, ...rest }, null, 2),
+  );
+  // mkdir's mode only applies to new directories
+  chmodSync(CONFIG_DIR, CONFIG_DIR_MODE);
+}
+
+/**
+ * Returns `base`, or `base-2`, `base-3`... if it's already taken
+ */
+export function uniqueAlias(base: string, taken: Set<string>): string {
+  let alias = base;
+  for (let n = 2; taken.has(alias); n++) {
+    alias = `${base}-${n}`;
+  }
+  return alias;
+}
+
+/**
+ * Finds a provider entry by alias
+ *
+ * A provider type (e.g. "openai") also matches when exactly one entry has
+ * that type, so names from before aliases existed keep working.
+ *
+ * @returns The entry, or undefined if there is no (unambiguous) match
+ */
+export function findProvider(
+  config: Config,
+  name: string,
+): ProviderConfig | undefined {
+  const byAlias = config.providers.find((p) => p.alias === name);
+  if (byAlias) {
+    return byAlias;
   }
+  const byType = config.providers.filter((p) => p.provider === name);
+  return byType.length === 1 ? byType[0] : undefined;
 }
 
 /**
  * Saves configuration to the auth.json file
  *
+ * API keys are encrypted with the credential vault, and the directory and
+ * file are made private to the user (0700 / 0600). The previous file is
+ * backed up and the new one replaces it atomically. Callers that loaded the
+ * config to modify it should hold withConfigLock() around both steps.
+ *
  * @param config - Configuration object to save
  * @throws Error if file writing fails
  */
@@ -104,7 +392,10 @@ export function saveConfig(config: Config): void {
   ensureConfigDir();
 
   try {
-    writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2));
+    withConfigLock(() => {
+      backupConfigFile();
+      writeConfigFile(sealConfig(config));
+    });
   } catch (error) {
     console.error("Error saving config file:", error);
     throw error;
@@ -133,7 +424,7 @@ export function maskApiKey(apiKey?: string): string {
 /**
  * Adds or updates a provider in the configuration
  *
- * If a provider with the same name exists, it will be updated.
+ * If an entry with the same alias exists, it will be updated.
  * If no default provider is set, the new provider becomes default.
  *
  * @param config - Configuration object to modify
@@ -145,12 +436,17 @@ export function addProvider(
   providerConfig: ProviderConfig,
 ): Config {
   const existingIndex = config.providers.findIndex(
-    (p) => p.provider === providerConfig.provider,
+    (p) => p.alias === providerConfig.alias,
   );
 
   if (existingIndex >= 0) {
-    // Update existing provider
-    config.providers[existingIndex] = providerConfig;
+    // Update existing provider, keeping settings only edited in the file
+    config.providers[existingIndex] = {
+      ...providerConfig,
+      systemPrompts:
+        providerConfig.systemPrompts ??
+        config.providers[existingIndex]!.systemPrompts,
+    };
   } else {
     // Add new provider
     config.providers.push(providerConfig);
@@ -158,7 +454,7 @@ export function addProvider(
 
   // Set as default if no default exists
   if (!config.defaultProvider) {
-    config.defaultProvider = providerConfig.provider;
+    config.defaultProvider = providerConfig.alias;
   }
 
   return config;
@@ -171,18 +467,26 @@ export function addProvider(
  * provider as the new default (or undefined if no providers remain).
  *
  * @param config - Configuration object to modify
- * @param providerName - Name of the provider to remove
+ * @param alias - Alias of the entry to remove
  * @returns Modified configuration object
  */
-export function removeProvider(config: Config, providerName: string): Config {
-  config.providers = config.providers.filter(
-    (p) => p.provider !== providerName,
-  );
+export function removeProvider(config: Config, alias: string): Config {
+  config.providers = config.providers.filter((p) => p.alias !== alias);
 
   // Update default provider if the removed one was default
-  if (config.defaultProvider === providerName) {
+  if (config.defaultProvider === alias) {
     config.defaultProvider =
-      config.providers.length > 0 ? config.providers[0]?.provider : undefined;
+      config.providers.length > 0 ? config.providers[0]?.alias : undefined;
+  }
+
+  // Drop the provider from the fallback chain
+  if (config.fallbackProviders) {
+    config.fallbackProviders = config.fallbackProviders.filter(
+      (name) => name !== alias,
+    );
+    if (config.fallbackProviders.length === 0) {
+      delete config.fallbackProviders;
+    }
   }
 
   return config;
@@ -194,16 +498,41 @@ export function removeProvider(config: Config, providerName: string): Config {
  * Only sets the default if the specified provider exists in the configuration.
  *
  * @param config - Configuration object to modify
- * @param providerName - Name of the provider to set as default
+ * @param alias - Alias of the entry to set as default
+ * @returns Modified configuration object
+ */
+export function setDefaultProvider(config: Config, alias: string): Config {
+  const provider = config.providers.find((p) => p.alias === alias);
+  if (provider) {
+    config.defaultProvider = alias;
+  }
+  return config;
+}
+
+/**
+ * Sets the ordered fallback chain
+ *
+ * Unknown providers and duplicates are ignored. Passing an empty list
+ * removes the fallback chain.
+ *
+ * @param config - Configuration object to modify
+ * @param providerNames - Aliases in the order they should be tried
  * @returns Modified configuration object
  */
-export function setDefaultProvider(
+export function setFallbackProviders(
   config: Config,
-  providerName: string,
+  providerNames: string[],
 ): Config {
-  const provider = config.providers.find((p) => p.provider === providerName);
-  if (provider) {
-    config.defaultProvider = providerName;
+  const known = providerNames.filter(
+    (name, index) =>
+      providerNames.indexOf(name) === index &&
+      config.providers.some((p) => p.alias === name),
+  );
+
+  if (known.length > 0) {
+    config.fallbackProviders = known;
+  } else {
+    delete config.fallbackProviders;
   }
   return config;
 }
@@ -221,5 +550,5 @@ export function getDefaultProvider(config: Config): ProviderConfig | undefined {
   if (!config.defaultProvider) {
     return config.providers[0];
   }
-  return config.providers.find((p) => p.provider === config.defaultProvider);
+  return config.providers.find((p) => p.alias === config.defaultProvider);
 }
@@ -0,0 +1,182 @@
+/**
+ * API Key Resolution
+ *
+ * Finds the API key for a provider without requiring it to be stored in
+ * auth.json. Sources, in order of precedence:
+ * 1. `AISH_<ALIAS>_API_KEY` (e.g. AISH_OPENAI_API_KEY, AISH_OPENAI_WORK_API_KEY)
+ * 2. `apiKey` in the provider config
+ * 3. `apiKeyCommand` in the provider config, run through the shell
+ * 4. The provider's standard variable (OPENAI_API_KEY, ANTHROPIC_API_KEY, ...)
+ */
+
+import { spawnSync } from "child_process";
+import { maskApiKey, type ProviderConfig, type VaultConfig } from "./config";
+import { isEncrypted, revealSecret } from "./vault";
+import { PROVIDERS } from "./providers";
+
+/** How long an apiKeyCommand may run (it may wait for a passphrase prompt) */
+const API_KEY_COMMAND_TIMEOUT_MS = 60_000;
+
+/** Keys already read from commands, so each command runs once per process */
+const commandKeys = new Map<string, string>();
+
+/**
+ * Where a provider's API key comes from
+ */
+export interface ApiKeySource {
+  /** The key, when it was found (commands are not run to describe a source) */
+  apiKey?: string;
+  /** config, command or env */
+  type: "config" | "command" | "env";
+  /** Environment variable name or command line */
+  name?: string;
+}
+
+/**
+ * Name of the aish-specific environment variable for a provider entry
+ *
+ * @param alias - Alias of the entry, so each account can have its own key
+ * @example apiKeyEnvName("openai-work") // "AISH_OPENAI_WORK_API_KEY"
+ */
+export function apiKeyEnvName(alias: string): string {
+  return `AISH_${alias.toUpperCase().replace(/[^A-Z0-9]+/g, "_")}_API_KEY`;
+}
+
+/**
+ * Environment variables checked for a provider entry, most specific first
+ *
+ * The standard variables (OPENAI_API_KEY, ...) are shared by all entries of
+ * the same provider type.
+ */
+export function apiKeyEnvNames(config: ProviderConfig): string[] {
+  return [
+    apiKeyEnvName(config.alias),
+    ...(PROVIDERS[config.provider]?.apiKeyEnv || []),
+  ];
+}
+
+/**
+ * Finds the first environment variable that holds a key for a provider entry
+ *
+ * @param standard - Whether to include the provider's standard variables
+ */
+function findEnvKey(
+  config: ProviderConfig,
+  standard: boolean,
+): ApiKeySource | undefined {
+  const names = standard
+    ? apiKeyEnvNames(config)
+    : [apiKeyEnvName(config.alias)];
+  for (const name of names) {
+    const value = process.env[name]?.trim();
+    if (value) {
+      return { apiKey: value, type: "env", name };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Describes where a provider's key would come from, without running commands
+ *
+ * @returns undefined when no key is available
+ */
+export function findApiKeySource(config: ProviderConfig): ApiKeySource | undefined {
+  return (
+    findEnvKey(config, false) ||
+    (config.apiKey ? { apiKey: config.apiKey, type: "config" } : undefined) ||
+    (config.apiKeyCommand
+      ? { type: "command", name: config.apiKeyCommand }
+      : undefined) ||
+    findEnvKey(config, true)
+  );
+}
+
+/**
+ * Runs an apiKeyCommand and returns its trimmed output
+ *
+ * The command's stderr and stdin stay attached to the terminal so tools
+ * like `pass` or `op` can ask for a passphrase.
+ *
+ * @throws Error if the command fails, times out or prints nothing
+ */
+function runApiKeyCommand(alias: string, command: string): string {
+  const cached = commandKeys.get(command);
+  if (cached) {
+    return cached;
+  }
+
+  const result = spawnSync(command, {
+    shell: true,
+    encoding: "utf-8",
+    stdio: ["inherit", "pipe", "inherit"],
+    timeout: API_KEY_COMMAND_TIMEOUT_MS,
+  });
+  if (result.error) {
+    throw new Error(
+      `apiKeyCommand for ${alias} could not run: ${result.error.message}`,
+    );
+  }
+  if (result.status !== 0) {
+    throw new Error(
+      `apiKeyCommand for ${alias} failed (exit ${result.status ?? result.signal}): ${command}`,
+    );
+  }
+
+  // Secret managers often print metadata after the first line (pass does)
+  const apiKey = (result.stdout || "").trim().split("\n")[0]!.trim();
+  if (!apiKey) {
+    throw new Error(`apiKeyCommand for ${alias} printed no key: ${command}`);
+  }
+  commandKeys.set(command, apiKey);
+  return apiKey;
+}
+
+/**
+ * Returns the API key for a provider, running its apiKeyCommand if needed
+ *
+ * @param vault - Vault settings for decrypting a stored key
+ * @returns The key, or undefined if none is configured anywhere
+ * @throws Error if the apiKeyCommand fails or the stored key can't be decrypted
+ */
+export function resolveApiKey(
+  config: ProviderConfig,
+  vault?: VaultConfig,
+): string | undefined {
+  const source = findApiKeySource(config);
+  if (source?.type === "command") {
+    return runApiKeyCommand(config.alias, source.name!);
+  }
+  if (source?.type === "config") {
+    return revealSecret(source.apiKey!, vault);
+  }
+  return source?.apiKey;
+}
+
+/**
+ * Short description of a provider's key for `config show`
+ *
+ * @example "encrypted", "$OPENAI_API_KEY (sk-1****abc2)", "command: pass show openai"
+ */
+export function describeApiKey(config: ProviderConfig): string {
+  const source = findApiKeySource(config);
+  switch (source?.type) {
+    case "env":
+      return `$${source.name} (${maskApiKey(source.apiKey)})`;
+    case "command":
+      return `command: ${source.name}`;
+    case "config":
+      return isEncrypted(source.apiKey)
+        ? "encrypted"
+        : maskApiKey(source.apiKey);
+    default:
+      return "not set";
+  }
+}
+
+/**
+ * Hint listing the ways to provide a key for a provider entry
+ */
+export function missingApiKeyHint(config: ProviderConfig): string {
+  return `Set apiKey or apiKeyCommand with 'aish config', or export ${apiKeyEnvNames(config).join(" or ")}`;
+}
@@ -0,0 +1,123 @@
+/**
+ * Command History Store
+ *
+ * Append-only log of `aish command` runs in ~/.config/aish/history.jsonl.
+ * Each line records the request, the command that ran last, every execution
+ * attempt and how the run ended, so runs can be searched and re-executed
+ * later with `aish history`.
+ */
+
+import { join } from "path";
+import { randomBytes } from "crypto";
+import { appendFileSync, existsSync, readFileSync } from "fs";
+import { CONFIG_DIR, ensureConfigDir } from "./config";
+import { CONFIG_FILE_MODE } from "./storage";
+
+/**
+ * A single command execution within a run
+ */
+export interface HistoryAttempt {
+  command: string;
+  exitCode: number;
+  /** Failure explanation from the model, if the attempt failed */
+  explanation?: string;
+}
+
+/**
+ * A recorded `aish command` run
+ */
+export interface HistoryEntry {
+  /** Short random identifier (accepts unique prefixes on lookup) */
+  id: string;
+  /** ISO timestamp of when the run started */
+  timestamp: string;
+  /** Original natural language request */
+  query: string;
+  /** Last refined request, when the user modified it */
+  finalQuery?: string;
+  /** Command that ran last (or was proposed, if nothing ran) */
+  command?: string;
+  /** Whether the command needed a TTY */
+  interactive?: boolean;
+  /** Final state of the run: success, aborted or dry-run */
+  status: string;
+  abortedReason?: string;
+  /** Exit code of the last execution, or null if nothing ran */
+  exitCode: number | null;
+  /** Every execution, in order */
+  attempts: HistoryAttempt[];
+  /** Directory the run happened in */
+  cwd: string;
+  /** Provider and model that answered, when the model was called */
+  provider?: string;
+  model?: string;
+  /** Wall-clock duration of the run */
+  durationMs: number;
+  /** Id of the entry this run re-executed */
+  rerunOf?: string;
+}
+
+/** Full path to the history log */
+const HISTORY_FILE = join(CONFIG_DIR, "history.jsonl");
+
+/**
+ * Generates a new history id
+ */
+export function createHistoryId(): string {
+  return randomBytes(4).toString("hex");
+}
+
+/**
+ * Appends a run to the history log
+ *
+ * Write failures are ignored so history never breaks a command.
+ */
+export function appendHistory(entry: HistoryEntry): void {
+  try {
+    ensureConfigDir();
+    appendFileSync(HISTORY_FILE, JSON.stringify(entry) + "\n", {
+      mode: CONFIG_FILE_MODE,
+    });
+  } catch {
+    // History is best-effort
+  }
+}
+
+/**
+ * Loads all runs from the history log, oldest first, skipping malformed lines
+ */
+export function loadHistory(): HistoryEntry[] {
+  if (!existsSync(HISTORY_FILE)) {
+    return [];
+  }
+
+  const entries: HistoryEntry[] = [];
+  for (const line of readFileSync(HISTORY_FILE, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as HistoryEntry);
+    } catch {
+      // Skip partially written lines
+    }
+  }
+  return entries;
+}
+
+/**
+ * Finds a run by id or unique id prefix
+ *
+ * @throws Error if no run or more than one run matches
+ */
+export function findHistoryEntry(id: string): HistoryEntry {
+  const matches = loadHistory().filter((entry) => entry.id.startsWith(id));
+
+  if (matches.length === 0) {
+    throw new Error(`No history entry matches "${id}".`);
+  }
+  if (matches.length > 1) {
+    throw new Error(
+      `"${id}" matches ${matches.length} entries. Use more characters of the id.`,
+    );
+  }
+  return matches[0]!;
+}
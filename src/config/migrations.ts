@@ -0,0 +1,148 @@
+/**
+ * Configuration Migrations
+ *
+ * auth.json records the `version` of its format; files written before
+ * versions existed are version 0. On load, every migration newer than the
+ * file runs in order on the parsed JSON, before it is validated. loadConfig
+ * backs up the original file before writing the migrated one.
+ *
+ * To change the format, append a migration here and update schema.ts.
+ */
+
+import { uniqueAlias, type ProviderConfig } from "./config";
+
+/** Parsed auth.json before validation */
+type RawConfig = Record<string, unknown>;
+
+/**
+ * One step between two config versions
+ */
+interface Migration {
+  /** Version the config has after this migration */
+  version: number;
+  /** What the migration changes, shown when it runs */
+  description: string;
+  /** Returns the migrated config (may modify its argument) */
+  migrate: (config: RawConfig) => RawConfig;
+}
+
+/**
+ * Migrations in the order they are applied
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "moved the single-provider settings into providers",
+    migrate: (config) => {
+      // { provider, model, apiKey } at the top level, from the first releases
+      if (!config.providers && config.provider && config.model) {
+        const { provider, model, apiKey, ...rest } = config;
+        return {
+          ...rest,
+          providers: [{ provider, preferredModel: model, apiKey }],
+          defaultProvider: provider,
+        };
+      }
+      return { ...config, providers: config.providers ?? [] };
+    },
+  },
+  {
+    version: 2,
+    description: "gave each provider entry an alias",
+    migrate: (config) => {
+      const lists = [
+        config.providers,
+        ...Object.values(
+          (config.profiles as Record<string, RawConfig> | undefined) || {},
+        ).map((profile) => profile?.providers),
+      ];
+      for (const providers of lists) {
+        if (Array.isArray(providers)) {
+          assignAliases(providers);
+        }
+      }
+      return config;
+    },
+  },
+];
+
+/** Current config format version, written on every save */
+export const CONFIG_VERSION = MIGRATIONS[MIGRATIONS.length - 1]!.version;
+
+/**
+ * Result of migrating a config
+ */
+export interface MigrationResult {
+  /** The migrated config */
+  config: RawConfig;
+  /** Version of the file before migrating */
+  from: number;
+  /** Descriptions of the migrations that changed something, in order */
+  applied: string[];
+}
+
+/**
+ * Gives entries without an alias one
+ *
+ * Older configs allowed a single entry per provider, so the provider name
+ * becomes the alias and existing defaults and fallback lists stay valid.
+ * Entries that aren't objects are left for validation to report.
+ */
+export function assignAliases(providers: unknown[]): void {
+  const entries = providers.filter(
+    (p): p is ProviderConfig =>
+      typeof p === "object" && p !== null && !Array.isArray(p),
+  );
+  const taken = new Set(entries.map((p) => p.alias).filter(Boolean));
+  for (const provider of entries) {
+    if (provider.alias || typeof provider.provider !== "string") continue;
+    provider.alias = uniqueAlias(provider.provider, taken);
+    taken.add(provider.alias);
+  }
+}
+
+/**
+ * Returns the version recorded in a config
+ *
+ * @throws Error if the version isn't a whole number or is newer than this aish
+ */
+export function configVersion(config: RawConfig): number {
+  const version = config.version ?? 0;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 0) {
+    throw new Error(`version: expected a whole number, received ${JSON.stringify(version)}`);
+  }
+  if (version > CONFIG_VERSION) {
+    throw new Error(
+      `version: ${version} was written by a newer aish (this one supports up to ${CONFIG_VERSION}); run 'aish update'`,
+    );
+  }
+  return version;
+}
+
+/**
+ * Runs the migrations a config needs to reach CONFIG_VERSION
+ *
+ * @throws Error if the config's version is invalid or too new
+ */
+export function migrateConfig(config: RawConfig): MigrationResult {
+  const from = configVersion(config);
+  const applied: string[] = [];
+  if (from === CONFIG_VERSION) {
+    return { config, from, applied };
+  }
+
+  let migrated = config;
+  for (const migration of MIGRATIONS) {
+    if (migration.version > from) {
+      const before = JSON.stringify(migrated);
+      migrated = migration.migrate(migrated);
+      if (JSON.stringify(migrated) !== before) {
+        applied.push(migration.description);
+      }
+    }
+  }
+
+  // Keep the version first in the file
+  const { version: _previous, ...rest } = migrated;
+  return { config: { version: CONFIG_VERSION, ...rest }, from, applied };
+}
@@ -0,0 +1,425 @@
+/**
+ * Portable Config Files
+ *
+ * `aish config export` writes the active profile's providers, default and
+ * fallbacks to a file that can be handed to a teammate; `aish config import`
+ * merges such a file into the active profile. Stored API keys are stripped,
+ * masked (only a hint of which key was used is kept) or encrypted with a
+ * passphrase chosen for the export, independent of the local vault. Key
+ * commands and base URLs hold no secret and are exported as they are.
+ */
+
+import { readFileSync } from "fs";
+import { z } from "zod";
+import {
+  addProvider,
+  maskApiKey,
+  uniqueAlias,
+  type Config,
+  type ProviderConfig,
+  type VaultConfig,
+} from "./config";
+import { PROVIDERS } from "./providers";
+import {
+  ConfigError,
+  providerSchema,
+  toConfigIssue,
+  type ConfigIssue,
+} from "./schema";
+import {
+  createPassphraseVault,
+  isEncrypted,
+  readPassphrase,
+  revealSecret,
+  sealSecret,
+  unlockVault,
+  type PassphraseSource,
+} from "./vault";
+
+/** Format version written to export files */
+export const EXPORT_FORMAT = 1;
+
+/** Environment variable read before prompting for an export's passphrase */
+export const EXPORT_PASSPHRASE_ENV = "AISH_EXPORT_PASSPHRASE";
+
+/** Passphrase protecting the API keys in an export file */
+const EXPORT_PASSPHRASE: PassphraseSource = {
+  env: EXPORT_PASSPHRASE_ENV,
+  label: "export",
+  unavailable: `The exported API keys need a passphrase. Set ${EXPORT_PASSPHRASE_ENV} or run aish in a terminal.`,
+};
+
+/** How stored API keys are written to an export */
+export const KEY_MODES = ["strip", "mask", "encrypt"] as const;
+
+export type KeyMode = (typeof KEY_MODES)[number];
+
+/** What an import does with an entry whose alias is already configured */
+export const CONFLICT_STRATEGIES = ["keep", "replace", "rename"] as const;
+
+export type ConflictStrategy = (typeof CONFLICT_STRATEGIES)[number];
+
+/**
+ * A provider entry in an export file
+ */
+export interface ExportedProvider extends Omit<ProviderConfig, "apiKey"> {
+  /** API key encrypted with the export's passphrase (--keys encrypt) */
+  apiKey?: string;
+  /** Masked API key telling which key was used (--keys mask) */
+  apiKeyMasked?: string;
+}
+
+/**
+ * Contents of a file written by `aish config export`
+ */
+export interface ExportFile {
+  /** Format version of the file */
+  aishExport: number;
+  /** When the file was written (ISO 8601) */
+  exportedAt?: string;
+  /** How stored API keys were written */
+  keys?: KeyMode;
+  /** Passphrase settings for the encrypted API keys */
+  encryption?: VaultConfig;
+  providers: ExportedProvider[];
+  defaultProvider?: string;
+  fallbackProviders?: string[];
+}
+
+/**
+ * What an import does with one entry of the file
+ */
+export interface ImportStep {
+  /** Entry from the file, with its API key decrypted */
+  entry: ProviderConfig;
+  /**
+   * add: new entry under `alias`; replace: overwrite the local entry;
+   * keep: leave the local entry; unchanged: the local entry already matches
+   */
+  action: "add" | "replace" | "keep" | "unchanged";
+  /** Alias the entry has locally */
+  alias: string;
+}
+
+const exportFileSchema = z.strictObject({
+  aishExport: z.number().int().positive(),
+  exportedAt: z.string().optional(),
+  keys: z.enum(KEY_MODES).optional(),
+  encryption: z
+    .strictObject({
+      mode: z.literal("passphrase"),
+      salt: z.string(),
+      cost: z.number().int().positive(),
+      check: z.string(),
+    })
+    .optional(),
+  providers: z.array(
+    providerSchema.extend({
+      alias: providerSchema.shape.alias.unwrap(),
+      apiKeyMasked: z.string().optional(),
+    }),
+  ),
+  defaultProvider: z.string().optional(),
+  fallbackProviders: z.array(z.string()).optional(),
+});
+
+/**
+ * Returns a profile's providers as an export file
+ *
+ * Asks for a new passphrase (or reads AISH_EXPORT_PASSPHRASE) when keys
+ * are encrypted, and for the vault passphrase when stored keys need to be
+ * decrypted first.
+ *
+ * @param config - Profile view to export
+ * @param keys - How stored API keys are written
+ */
+export function exportProfile(config: Config, keys: KeyMode): ExportFile {
+  const encryption =
+    keys === "encrypt" && config.providers.some((p) => p.apiKey)
+      ? createPassphraseVault(readPassphrase(true, EXPORT_PASSPHRASE))
+      : undefined;
+
+  const providers = config.providers.map(
+    ({ apiKey, ...entry }): ExportedProvider => {
+      if (!apiKey || keys === "strip") {
+        return entry;
+      }
+      const plaintext = revealSecret(apiKey, config.vault);
+      return keys === "mask"
+        ? { ...entry, apiKeyMasked: maskApiKey(plaintext) }
+        : { ...entry, apiKey: sealSecret(plaintext, encryption!) };
+    },
+  );
+
+  return {
+    aishExport: EXPORT_FORMAT,
+    exportedAt: new Date().toISOString(),
+    keys,
+    ...(encryption ? { encryption } : {}),
+    providers,
+    ...(config.defaultProvider
+      ? { defaultProvider: config.defaultProvider }
+      : {}),
+    ...(config.fallbackProviders?.length
+      ? { fallbackProviders: config.fallbackProviders }
+      : {}),
+  };
+}
+
+/**
+ * Reads and validates an export file
+ *
+ * @throws ConfigError if the file isn't a valid export from this or an older aish
+ */
+export function readExportFile(path: string): ExportFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    throw new ConfigError(path, [
+      {
+        path: "",
+        message: `not valid JSON (${error instanceof Error ? error.message : error})`,
+      },
+    ]);
+  }
+
+  if (typeof raw !== "object" || raw === null || !("aishExport" in raw)) {
+    throw new ConfigError(path, [
+      {
+        path: "",
+        message: "not an aish export file (create one with: aish config export)",
+      },
+    ]);
+  }
+  if (typeof raw.aishExport === "number" && raw.aishExport > EXPORT_FORMAT) {
+    throw new ConfigError(path, [
+      {
+        path: "aishExport",
+        message: `${raw.aishExport} was written by a newer aish (this one supports up to ${EXPORT_FORMAT}); run 'aish update'`,
+      },
+    ]);
+  }
+
+  const result = exportFileSchema.safeParse(raw);
+  if (!result.success) {
+    throw new ConfigError(path, result.error.issues.map(toConfigIssue));
+  }
+
+  const file = result.data as ExportFile;
+  const issues: ConfigIssue[] = [];
+  file.providers.forEach((provider, index) => {
+    if (provider.apiKey && (!file.encryption || !isEncrypted(provider.apiKey))) {
+      issues.push({
+        path: `providers[${index}].apiKey`,
+        message: "expected a key encrypted with the export's passphrase",
+      });
+    }
+  });
+  if (issues.length > 0) {
+    throw new ConfigError(path, issues);
+  }
+  return file;
+}
+
+/**
+ * Returns the entries of an export file with their API keys decrypted
+ *
+ * Asks for the export's passphrase (or reads AISH_EXPORT_PASSPHRASE) when
+ * the file has encrypted keys.
+ *
+ * @throws Error if the passphrase is wrong
+ */
+export function importedProviders(file: ExportFile): ProviderConfig[] {
+  if (file.encryption && file.providers.some((p) => p.apiKey)) {
+    unlockVault(file.encryption, readPassphrase(false, EXPORT_PASSPHRASE));
+  }
+  return file.providers.map(({ apiKey, apiKeyMasked: _masked, ...entry }) => ({
+    ...entry,
+    ...(apiKey ? { apiKey: revealSecret(apiKey, file.encryption) } : {}),
+  }));
+}
+
+/**
+ * Whether an imported entry would change nothing about a local one
+ */
+function isSameEntry(local: ProviderConfig, entry: ProviderConfig): boolean {
+  return (
+    !entry.apiKey &&
+    local.provider === entry.provider &&
+    local.preferredModel === entry.preferredModel &&
+    local.baseUrl === entry.baseUrl &&
+    (!entry.apiKeyCommand || local.apiKeyCommand === entry.apiKeyCommand) &&
+    (!entry.systemPrompts ||
+      JSON.stringify(local.systemPrompts) ===
+        JSON.stringify(entry.systemPrompts))
+  );
+}
+
+/**
+ * Whether a replaced entry keeps the local API key
+ *
+ * Only when the file has no key of its own and the entry still talks to the
+ * same provider and server; otherwise an export file could send the local
+ * key to an endpoint of its choosing.
+ *
+ * @param local - Entry being replaced
+ */
+export function keepsLocalKey(
+  local: ProviderConfig | undefined,
+  entry: ProviderConfig,
+): boolean {
+  return (
+    !!local &&
+    !entry.apiKey &&
+    !entry.apiKeyCommand &&
+    local.provider === entry.provider &&
+    local.baseUrl === entry.baseUrl
+  );
+}
+
+/**
+ * Planned steps that would save an apiKeyCommand the profile doesn't have yet
+ *
+ * The command runs through a shell whenever the entry is used, so it needs
+ * the user's consent.
+ *
+ * @param config - Profile view the entries are imported into
+ */
+export function newKeyCommands(
+  config: Config,
+  steps: ImportStep[],
+): ImportStep[] {
+  return steps.filter((step) => {
+    if (!step.entry.apiKeyCommand) return false;
+    if (step.action === "add") return true;
+    const local = config.providers.find((p) => p.alias === step.alias);
+    return (
+      step.action === "replace" &&
+      local?.apiKeyCommand !== step.entry.apiKeyCommand
+    );
+  });
+}
+
+/**
+ * Planned steps that would point a cloud provider at a server the profile
+ * doesn't use yet
+ *
+ * Requests to that server carry the API key, including one found in the
+ * environment (OPENAI_API_KEY, ...) when the entry has none, so the user
+ * has to agree to the server.
+ *
+ * @param config - Profile view the entries are imported into
+ */
+export function newBaseUrls(
+  config: Config,
+  steps: ImportStep[],
+): ImportStep[] {
+  return steps.filter((step) => {
+    const { provider, baseUrl } = step.entry;
+    const info = PROVIDERS[provider];
+    if (!baseUrl || !info || info.local || baseUrl === info.defaultBaseUrl) {
+      return false;
+    }
+    if (step.action === "add") return true;
+    const local = config.providers.find((p) => p.alias === step.alias);
+    return step.action === "replace" && local?.baseUrl !== baseUrl;
+  });
+}
+
+/**
+ * Decides what to do with each entry of an export file
+ *
+ * Entries with a new alias are added. For aliases that are already
+ * configured differently, the strategy decides: keep the local entry,
+ * replace it, or add the imported one under a numbered alias (openai-2).
+ *
+ * @param config - Profile view the entries are imported into
+ */
+export function planImport(
+  config: Config,
+  entries: ProviderConfig[],
+  strategy: ConflictStrategy,
+): ImportStep[] {
+  const taken = new Set(
+    [...config.providers, ...entries].map((p) => p.alias),
+  );
+  return entries.map((entry): ImportStep => {
+    const local = config.providers.find((p) => p.alias === entry.alias);
+    if (!local) {
+      return { entry, action: "add", alias: entry.alias };
+    }
+    if (isSameEntry(local, entry)) {
+      return { entry, action: "unchanged", alias: entry.alias };
+    }
+    switch (strategy) {
+      case "replace":
+        return { entry, action: "replace", alias: entry.alias };
+      case "rename": {
+        const alias = uniqueAlias(entry.alias, taken);
+        taken.add(alias);
+        return { entry, action: "add", alias };
+      }
+      default:
+        return { entry, action: "keep", alias: entry.alias };
+    }
+  });
+}
+
+/**
+ * Merges planned entries into a profile view
+ *
+ * A replaced entry keeps the local API key when keepsLocalKey() allows it,
+ * and its system prompts when the file has none. The file's default
+ * provider is used when the profile has none or `makeDefault` is set, and
+ * its fallbacks when the profile has none.
+ * An alias taken since planning makes an added entry use a numbered alias;
+ * the step's alias is updated to match.
+ *
+ * @param config - Profile view to modify (reloaded under the config lock)
+ */
+export function applyImport(
+  config: Config,
+  steps: ImportStep[],
+  file: ExportFile,
+  makeDefault: boolean,
+): void {
+  const hadDefault = !!config.defaultProvider;
+  // Alias in the file -> alias of the entry that stands for it locally
+  const aliases = new Map<string, string>();
+
+  for (const step of steps) {
+    const local = config.providers.find((p) => p.alias === step.alias);
+    if (step.action === "add") {
+      if (local) {
+        step.alias = uniqueAlias(
+          step.alias,
+          new Set(config.providers.map((p) => p.alias)),
+        );
+      }
+      addProvider(config, { ...step.entry, alias: step.alias });
+    } else if (step.action === "replace") {
+      const keep = keepsLocalKey(local, step.entry);
+      addProvider(config, {
+        ...step.entry,
+        ...(keep && local?.apiKey ? { apiKey: local.apiKey } : {}),
+        ...(keep && local?.apiKeyCommand
+          ? { apiKeyCommand: local.apiKeyCommand }
+          : {}),
+      });
+    }
+    aliases.set(step.entry.alias, step.alias);
+  }
+
+  const defaultProvider =
+    file.defaultProvider && aliases.get(file.defaultProvider);
+  if (defaultProvider && (makeDefault || !hadDefault)) {
+    config.defaultProvider = defaultProvider;
+  }
+  const fallbackProviders = (file.fallbackProviders || [])
+    .map((alias) => aliases.get(alias))
+    .filter((alias): alias is string => !!alias);
+  if (!config.fallbackProviders?.length && fallbackProviders.length > 0) {
+    config.fallbackProviders = fallbackProviders;
+  }
+}
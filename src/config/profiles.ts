@@ -0,0 +1,196 @@
+/**
+ * Configuration Profiles
+ *
+ * Named profiles (e.g. work, personal, offline) keep separate sets of
+ * providers in one auth.json. The top-level settings form the "default"
+ * profile; every other profile lives under `profiles` and has its own
+ * providers, default and fallbacks, and optionally its own policies,
+ * system prompts, templates and context (inherited from the top level when
+ * not set). Settings like retry, safety and redaction are shared.
+ *
+ * The active profile is chosen by --profile, then AISH_PROFILE, then
+ * `aish config use <profile>`.
+ */
+
+import {
+  loadConfig,
+  saveConfig,
+  type Config,
+  type ProfileConfig,
+} from "./config";
+import { withConfigLock } from "./storage";
+
+/** Name of the profile formed by the top-level settings */
+export const DEFAULT_PROFILE = "default";
+
+/** Environment variable selecting a profile */
+export const PROFILE_ENV = "AISH_PROFILE";
+
+/** Where the active profile was chosen */
+export type ProfileSource = "flag" | "env" | "config" | "default";
+
+/** Profile given with --profile, if any */
+let profileFlag: string | undefined;
+
+/**
+ * Records the profile given with --profile for this invocation
+ */
+export function setProfileOverride(name: string | undefined): void {
+  profileFlag = name;
+}
+
+/**
+ * Returns the active profile name and where it was chosen
+ */
+export function resolveProfileName(config: Config): {
+  name: string;
+  source: ProfileSource;
+} {
+  if (profileFlag) {
+    return { name: profileFlag, source: "flag" };
+  }
+  const fromEnv = process.env[PROFILE_ENV]?.trim();
+  if (fromEnv) {
+    return { name: fromEnv, source: "env" };
+  }
+  if (config.activeProfile) {
+    return { name: config.activeProfile, source: "config" };
+  }
+  return { name: DEFAULT_PROFILE, source: "default" };
+}
+
+/**
+ * Lists the profile names in a config, default first
+ */
+export function listProfiles(config: Config): string[] {
+  return [DEFAULT_PROFILE, ...Object.keys(config.profiles || {})];
+}
+
+/**
+ * Returns the config as seen from a profile
+ *
+ * The profile's providers, default and fallbacks replace the top-level
+ * ones; its policies, prompts, templates and context replace them only
+ * when set.
+ *
+ * @param create - Start an empty profile instead of failing when it's missing
+ * @throws Error listing the available profiles if the name is unknown
+ */
+export function getProfileView(
+  config: Config,
+  name: string,
+  create = false,
+): Config {
+  if (name === DEFAULT_PROFILE) {
+    return config;
+  }
+
+  const profile = config.profiles?.[name];
+  if (!profile && !create) {
+    throw new Error(
+      `Profile "${name}" not found. Available profiles: ${listProfiles(config).join(", ")}. Create it with: aish config use ${name}`,
+    );
+  }
+
+  return {
+    ...config,
+    providers: profile?.providers || [],
+    defaultProvider: profile?.defaultProvider,
+    fallbackProviders: profile?.fallbackProviders,
+    policies: profile?.policies ?? config.policies,
+    systemPrompts: profile?.systemPrompts ?? config.systemPrompts,
+    templates: profile?.templates ?? config.templates,
+    context: profile?.context ?? config.context,
+  };
+}
+
+/**
+ * Loads the configuration for the active profile
+ *
+ * @param create - Allow a profile that doesn't exist yet (for config commands)
+ */
+export function loadProfileConfig(create = false): Config {
+  const config = loadConfig();
+  return getProfileView(config, resolveProfileName(config).name, create);
+}
+
+/**
+ * Saves the providers, default and fallbacks of a profile view
+ *
+ * Only the settings `aish config` manages are written back; everything
+ * else in the file is kept as it is.
+ *
+ * @param view - Config returned by loadProfileConfig() and then modified
+ */
+export function saveProfileConfig(view: Config): void {
+  withConfigLock(() => {
+    const config = loadConfig();
+    const { name } = resolveProfileName(config);
+
+    if (name === DEFAULT_PROFILE) {
+      saveConfig({
+        ...config,
+        providers: view.providers,
+        defaultProvider: view.defaultProvider,
+        fallbackProviders: view.fallbackProviders,
+      });
+      return;
+    }
+
+    const profile: ProfileConfig = {
+      ...config.profiles?.[name],
+      providers: view.providers,
+      defaultProvider: view.defaultProvider,
+      fallbackProviders: view.fallbackProviders,
+    };
+    saveConfig({
+      ...config,
+      profiles: { ...config.profiles, [name]: profile },
+    });
+  });
+}
+
+/**
+ * Changes the active profile's providers under the config lock
+ *
+ * The profile is reloaded inside the lock, so changes other aish processes
+ * saved in the meantime are kept.
+ *
+ * @param update - Modifies the freshly loaded profile view
+ * @returns The profile view as saved
+ */
+export function updateProfileConfig(update: (view: Config) => void): Config {
+  return withConfigLock(() => {
+    const view = loadProfileConfig(true);
+    update(view);
+    saveProfileConfig(view);
+    return view;
+  });
+}
+
+/**
+ * Makes a profile the one used when neither --profile nor AISH_PROFILE is given
+ *
+ * @returns Whether the profile was created
+ * @throws Error for names that aren't simple identifiers
+ */
+export function useProfile(config: Config, name: string): boolean {
+  if (!/^[\w.-]+$/.test(name)) {
+    throw new Error(
+      `Invalid profile name "${name}". Use letters, digits, ".", "-" and "_".`,
+    );
+  }
+
+  let created = false;
+  if (name === DEFAULT_PROFILE) {
+    delete config.activeProfile;
+  } else {
+    if (!config.profiles?.[name]) {
+      config.profiles = { ...config.profiles, [name]: { providers: [] } };
+      created = true;
+    }
+    config.activeProfile = name;
+  }
+  saveConfig(config);
+  return created;
+}
@@ -0,0 +1,293 @@
+/**
+ * Project Configuration
+ *
+ * A `.aish.json` or `.aish.toml` file, found by walking up from the working
+ * directory, lets a repository share settings with everyone who runs aish in
+ * it: the provider and model to use, extra context for the system prompts,
+ * command policies and prompt templates. It is merged over the user config
+ * at runtime and never written back. Providers and API keys stay in
+ * ~/.config/aish/auth.json; a project file cannot define them.
+ */
+
+import chalk from "chalk";
+import { existsSync, readFileSync } from "fs";
+import { dirname, join, resolve } from "path";
+import { loadProfileConfig } from "./profiles";
+import {
+  findProvider,
+  type CommandPolicy,
+  type Config,
+  type PromptTemplate,
+} from "./config";
+import { formatConfigIssue, templateSchema, toConfigIssue } from "./schema";
+
+/** Project file names, in lookup order within a directory */
+export const PROJECT_CONFIG_FILES = [".aish.json", ".aish.toml"];
+
+/**
+ * Settings a project file may contain
+ */
+export interface ProjectConfig {
+  /** Provider type or alias to use in this project (must be configured by the user) */
+  defaultProvider?: string;
+  /** Model to use with that provider */
+  model?: string;
+  /** Extra context added to the ask and command system prompts */
+  context?: string;
+  /** Deny / confirm policies, scoped to the project directory by default */
+  policies?: CommandPolicy[];
+  /** Templates for `aish ask --template`; user templates of the same name win */
+  templates?: Record<string, PromptTemplate>;
+}
+
+/**
+ * A project file that was found and parsed
+ */
+export interface LoadedProjectConfig {
+  /** Path of the project file */
+  path: string;
+  /** Directory containing the file */
+  root: string;
+  /** Settings that will be applied */
+  config: ProjectConfig;
+  /** Settings that were ignored, and why */
+  warnings: string[];
+}
+
+/** Keys accepted in a project file */
+const PROJECT_KEYS = new Set([
+  "defaultProvider",
+  "model",
+  "context",
+  "policies",
+  "templates",
+]);
+
+/** Keys that would put credentials or provider setup in the repository */
+const SECRET_KEYS = new Set([
+  "providers",
+  "apiKey",
+  "apiKeys",
+  "apiKeyCommand",
+  "baseUrl",
+]);
+
+/**
+ * Finds the nearest project file at or above a directory
+ *
+ * @returns The file path, or undefined if there is none up to the root
+ */
+export function findProjectConfig(cwd: string = process.cwd()): string | undefined {
+  let directory = resolve(cwd);
+  while (true) {
+    for (const name of PROJECT_CONFIG_FILES) {
+      const path = join(directory, name);
+      if (existsSync(path)) {
+        return path;
+      }
+    }
+    const parent = dirname(directory);
+    if (parent === directory) {
+      return undefined;
+    }
+    directory = parent;
+  }
+}
+
+/**
+ * Parses a project file as JSON or TOML depending on its extension
+ *
+ * @throws Error naming the file when it can't be parsed
+ */
+function parseProjectFile(path: string): Record<string, unknown> {
+  try {
+    const content = readFileSync(path, "utf-8");
+    const parsed = path.endsWith(".toml")
+      ? Bun.TOML.parse(content)
+      : JSON.parse(content);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error("expected an object at the top level");
+    }
+    return parsed as Record<string, unknown>;
+  } catch (error) {
+    throw new Error(
+      `Invalid project config ${path}: ${error instanceof Error ? error.message : "unknown error"}`,
+    );
+  }
+}
+
+/**
+ * Loads the nearest project file, dropping settings it may not contain
+ *
+ * Provider definitions and keys are refused so secrets never end up in a
+ * repository. Project policies can only deny or require confirmation; a
+ * repository can't auto-approve commands on a user's machine.
+ *
+ * @returns The project settings, or undefined when there is no project file
+ * @throws Error if the file exists but can't be parsed
+ */
+export function loadProjectConfig(
+  cwd: string = process.cwd(),
+): LoadedProjectConfig | undefined {
+  const path = findProjectConfig(cwd);
+  if (!path) {
+    return undefined;
+  }
+
+  const root = dirname(path);
+  const raw = parseProjectFile(path);
+  const warnings: string[] = [];
+  const config: ProjectConfig = {};
+
+  for (const key of Object.keys(raw)) {
+    if (SECRET_KEYS.has(key)) {
+      warnings.push(
+        `Ignoring "${key}": providers and API keys belong in ~/.config/aish/auth.json, not in the repository`,
+      );
+    } else if (!PROJECT_KEYS.has(key)) {
+      warnings.push(`Ignoring unknown setting "${key}"`);
+    }
+  }
+
+  if (typeof raw.defaultProvider === "string") {
+    config.defaultProvider = raw.defaultProvider;
+  }
+  if (typeof raw.model === "string") {
+    config.model = raw.model;
+  }
+  if (typeof raw.context === "string" && raw.context.trim()) {
+    config.context = raw.context.trim();
+  }
+  if (raw.templates && typeof raw.templates === "object") {
+    config.templates = {};
+    for (const [name, template] of Object.entries(raw.templates)) {
+      const result = templateSchema.safeParse(template);
+      if (!result.success) {
+        const issue = toConfigIssue(result.error.issues[0]!);
+        warnings.push(
+          `Ignoring template "${name}": ${formatConfigIssue(issue)}`,
+        );
+        continue;
+      }
+      // {{file:path}} in a project template may only read inside the project
+      config.templates[name] = { ...result.data, root };
+    }
+  }
+  if (Array.isArray(raw.policies)) {
+    config.policies = [];
+    for (const policy of raw.policies as CommandPolicy[]) {
+      if (typeof policy?.match !== "string") {
+        warnings.push(`Ignoring a policy without a "match" pattern`);
+        continue;
+      }
+      if (policy.action !== "deny" && policy.action !== "confirm") {
+        warnings.push(
+          `Ignoring policy "${policy.match}" (${policy.action}): project policies can only deny or confirm`,
+        );
+        continue;
+      }
+      // Relative directories are relative to the project, and policies
+      // without one only apply inside it
+      config.policies.push({
+        ...policy,
+        directory: policy.directory
+          ? policy.directory.startsWith("~")
+            ? policy.directory
+            : resolve(root, policy.directory)
+          : root,
+      });
+    }
+  }
+
+  return { path, root, config, warnings };
+}
+
+/**
+ * Merges project settings over a user configuration
+ *
+ * @param warnings - Receives notes about settings that couldn't be applied
+ * @returns A new configuration; the user config is not modified
+ */
+export function mergeProjectConfig(
+  userConfig: Config,
+  project: ProjectConfig,
+  warnings: string[] = [],
+): Config {
+  const merged: Config = { ...userConfig };
+
+  if (project.defaultProvider) {
+    // Matches an alias, or a provider type the user has a single entry for
+    const entry = findProvider(userConfig, project.defaultProvider);
+    if (entry) {
+      merged.defaultProvider = entry.alias;
+    } else {
+      warnings.push(
+        `Project provider "${project.defaultProvider}" is not configured; using your default. Add it with: aish config add --provider ${project.defaultProvider}`,
+      );
+    }
+  }
+
+  if (project.model) {
+    const target = merged.defaultProvider || userConfig.providers[0]?.alias;
+    merged.providers = userConfig.providers.map((p) =>
+      p.alias === target ? { ...p, preferredModel: project.model! } : p,
+    );
+  }
+
+  if (project.context) {
+    merged.context = [userConfig.context, project.context]
+      .filter(Boolean)
+      .join("\n\n");
+  }
+
+  if (project.policies?.length) {
+    merged.policies = [...(userConfig.policies || []), ...project.policies];
+  }
+
+  if (project.templates) {
+    // A repository can't swap out a template the user relies on
+    const userTemplates = userConfig.templates || {};
+    for (const name of Object.keys(project.templates)) {
+      if (name in userTemplates) {
+        warnings.push(
+          `Ignoring template "${name}": you have a template with the same name`,
+        );
+      }
+    }
+    merged.templates = { ...project.templates, ...userTemplates };
+  }
+
+  return merged;
+}
+
+/**
+ * Loads the active profile with the current project's settings applied
+ *
+ * Problems with the project file are printed as warnings (on stderr, so JSON
+ * output stays clean) and the user configuration is used as-is.
+ */
+export function loadEffectiveConfig(cwd: string = process.cwd()): Config {
+  const userConfig = loadProfileConfig();
+
+  let project: LoadedProjectConfig | undefined;
+  try {
+    project = loadProjectConfig(cwd);
+  } catch (error) {
+    console.error(
+      chalk.yellow(
+        `⚠️  ${error instanceof Error ? error.message : "Invalid project config"}`,
+      ),
+    );
+    return userConfig;
+  }
+  if (!project) {
+    return userConfig;
+  }
+
+  const warnings = [...project.warnings];
+  const merged = mergeProjectConfig(userConfig, project.config, warnings);
+  for (const warning of warnings) {
+    console.error(chalk.yellow(`⚠️  ${project.path}: ${warning}`));
+  }
+  return merged;
+}
@@ -0,0 +1,154 @@
+/**
+ * Prompt Templates and System Prompts
+ *
+ * Resolves the system prompts used by `ask` and `command` (built-in
+ * defaults, overridable globally or per provider in the config) and renders
+ * the named templates invoked with `aish ask --template <name>`.
+ */
+
+import { existsSync, readFileSync, realpathSync } from "fs";
+import os from "os";
+import { isAbsolute, relative, resolve, sep } from "path";
+import type { Config, PromptTemplate } from "./config";
+
+/** Built-in system prompts */
+export const DEFAULT_SYSTEM_PROMPTS = {
+  ask: "You are a helpful AI assistant. Provide clear, concise, and accurate responses.",
+  command: "You are a shell command expert.",
+} as const;
+
+/** Kinds of system prompt that can be overridden */
+export type SystemPromptKind = keyof typeof DEFAULT_SYSTEM_PROMPTS;
+
+/** Largest file a {{file:...}} placeholder inlines */
+const TEMPLATE_FILE_MAX_BYTES = 100 * 1024;
+
+/** {{name}} or {{file:path}} placeholders, with optional inner spaces */
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-z]+)(?::([^}]+?))?\s*\}\}/g;
+
+/**
+ * Adds the configured `context` (user and project) to a system prompt
+ */
+export function appendPromptContext(system: string, config: Config): string {
+  return config.context
+    ? `${system}\n\nContext for this environment:\n${config.context}`
+    : system;
+}
+
+/**
+ * Returns the system prompt for a command and provider
+ *
+ * A provider's own `systemPrompts` win over the global `systemPrompts`,
+ * which win over the built-in default. The configured `context` is
+ * appended either way.
+ *
+ * @param alias - Alias of the provider entry that will answer
+ * @param override - Prompt to use instead (e.g. a template's system prompt)
+ */
+export function resolveSystemPrompt(
+  config: Config,
+  kind: SystemPromptKind,
+  alias?: string,
+  override?: string,
+): string {
+  const providerPrompts = config.providers.find(
+    (p) => p.alias === alias,
+  )?.systemPrompts;
+  return appendPromptContext(
+    override ||
+      providerPrompts?.[kind] ||
+      config.systemPrompts?.[kind] ||
+      DEFAULT_SYSTEM_PROMPTS[kind],
+    config,
+  );
+}
+
+/**
+ * Looks up a named template
+ *
+ * @throws Error listing the available templates if the name is unknown
+ */
+export function getTemplate(config: Config, name: string): PromptTemplate {
+  const template = config.templates?.[name];
+  if (!template) {
+    const names = Object.keys(config.templates || {});
+    throw new Error(
+      names.length > 0
+        ? `Template "${name}" not found. Available templates: ${names.join(", ")}`
+        : `Template "${name}" not found. Add templates under "templates" in ~/.config/aish/auth.json or the project's .aish.json.`,
+    );
+  }
+  if (typeof template.prompt !== "string") {
+    throw new Error(`Template "${name}" has no "prompt" text.`);
+  }
+  return template;
+}
+
+/**
+ * Reads a file for a {{file:path}} placeholder
+ *
+ * @param root - Directory the file must be in (templates from a project
+ *               file), so a cloned repository can't send ~/.ssh to the model
+ */
+function readTemplateFile(path: string, cwd: string, root?: string): string {
+  const absolute = resolve(cwd, path.replace(/^~(?=$|\/)/, os.homedir()));
+  if (!existsSync(absolute)) {
+    throw new Error(`Template file not found: ${path}`);
+  }
+  if (root) {
+    // Compare real paths so a symlink in the project can't point outside it
+    const inside = relative(realpathSync(root), realpathSync(absolute));
+    if (inside === ".." || inside.startsWith(`..${sep}`) || isAbsolute(inside)) {
+      throw new Error(
+        `Template file ${path} is outside the project; project templates can only read files in ${root}`,
+      );
+    }
+  }
+  const content = readFileSync(absolute);
+  if (content.length > TEMPLATE_FILE_MAX_BYTES) {
+    throw new Error(
+      `Template file ${path} is larger than ${TEMPLATE_FILE_MAX_BYTES / 1024} KB; attach it with --file instead.`,
+    );
+  }
+  return content.toString("utf-8");
+}
+
+/**
+ * Fills in a template's placeholders
+ *
+ * Supported: {{input}} (the text given on the command line), {{cwd}},
+ * {{os}} and {{file:path}} (file contents, relative to cwd; inside the
+ * project for project templates). When the template has no {{input}}, the
+ * input is appended after it.
+ *
+ * @throws Error for unknown placeholders and unreadable files
+ */
+export function renderTemplate(
+  template: PromptTemplate,
+  input: string,
+  cwd: string = process.cwd(),
+): string {
+  let usedInput = false;
+  const rendered = template.prompt.replace(
+    PLACEHOLDER_PATTERN,
+    (placeholder, name: string, argument?: string) => {
+      switch (name) {
+        case "input":
+          usedInput = true;
+          return input;
+        case "cwd":
+          return cwd;
+        case "os":
+          return `${os.type()} ${os.release()} (${os.platform()} ${os.arch()})`;
+        case "file":
+          if (argument) {
+            return readTemplateFile(argument.trim(), cwd, template.root);
+          }
+          break;
+      }
+      throw new Error(`Unknown template variable ${placeholder}`);
+    },
+  );
+
+  return !usedInput && input ? `${rendered}\n\n${input}` : rendered;
+}
@@ -7,6 +7,16 @@
 
 import chalk from "chalk";
 
+/**
+ * Token rates for a model in USD per million tokens
+ */
+export interface ModelPricing {
+  /** Cost per million input (prompt) tokens */
+  input: number;
+  /** Cost per million output (completion) tokens */
+  output: number;
+}
+
 /**
  * Interface defining the structure of AI provider information
  */
@@ -19,8 +29,23 @@ export interface ProviderInfo {
   docsUrl: string;
   /** Optional URL to a complete list of available models */
   modelsListUrl?: string;
+  /** Standard environment variables holding an API key for this provider */
+  apiKeyEnv?: string[];
+  /** Whether the provider is self-hosted (configured by base URL, API key optional) */
+  local?: boolean;
+  /** Default endpoint for providers that are reached through a base URL */
+  defaultBaseUrl?: string;
+  /** Per-model token rates used for cost accounting (list prices) */
+  pricing?: Record<string, ModelPricing>;
+  /** Context window in tokens for models not listed in contextWindows */
+  defaultContextWindow?: number;
+  /** Per-model context window in tokens, used to size prompts */
+  contextWindows?: Record<string, number>;
 }
 
+/** Context window assumed when neither the model nor its provider is known */
+const FALLBACK_CONTEXT_WINDOW = 8192;
+
 /**
  * Registry of all supported AI providers and their configurations
  *
@@ -29,6 +54,10 @@ export interface ProviderInfo {
  * - Sample models (most commonly used)
  * - Documentation URL for setup instructions
  * - Optional URL for complete model listings
+ * - Standard API key environment variables
+ * - Local flag and default base URL for self-hosted endpoints
+ * - Per-model token rates for `aish usage` cost estimates
+ * - Context windows used to budget command output in prompts
  */
 export const PROVIDERS: Record<string, ProviderInfo> = {
   /** Anthropic's Claude models */
@@ -43,6 +72,15 @@ export const PROVIDERS: Record<string, ProviderInfo> = {
     ],
     docsUrl:
       "https://ai-sdk.dev/providers/ai-sdk-providers/anthropic#model-capabilities",
+    apiKeyEnv: ["ANTHROPIC_API_KEY"],
+    pricing: {
+      "claude-3-5-sonnet-20241022": { input: 3, output: 15 },
+      "claude-3-5-haiku-20241022": { input: 0.8, output: 4 },
+      "claude-3-opus-20240229": { input: 15, output: 75 },
+      "claude-3-sonnet-20240229": { input: 3, output: 15 },
+      "claude-3-haiku-20240307": { input: 0.25, output: 1.25 },
+    },
+    defaultContextWindow: 200000,
   },
 
   /** OpenAI's GPT models */
@@ -57,6 +95,19 @@ export const PROVIDERS: Record<string, ProviderInfo> = {
     ],
     docsUrl:
       "https://ai-sdk.dev/providers/ai-sdk-providers/openai#model-capabilities",
+    apiKeyEnv: ["OPENAI_API_KEY"],
+    pricing: {
+      "gpt-4o": { input: 2.5, output: 10 },
+      "gpt-4o-mini": { input: 0.15, output: 0.6 },
+      "gpt-4-turbo": { input: 10, output: 30 },
+      "gpt-4": { input: 30, output: 60 },
+      "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+    },
+    defaultContextWindow: 128000,
+    contextWindows: {
+      "gpt-4": 8192,
+      "gpt-3.5-turbo": 16385,
+    },
   },
 
   /** xAI's Grok models */
@@ -68,6 +119,15 @@ export const PROVIDERS: Record<string, ProviderInfo> = {
     ],
     docsUrl:
       "https://ai-sdk.dev/providers/ai-sdk-providers/xai#model-capabilities",
+    apiKeyEnv: ["XAI_API_KEY"],
+    pricing: {
+      "grok-beta": { input: 5, output: 15 },
+      "grok-vision-beta": { input: 5, output: 15 },
+    },
+    defaultContextWindow: 131072,
+    contextWindows: {
+      "grok-vision-beta": 8192,
+    },
   },
 
   /** OpenRouter - aggregates multiple providers */
@@ -83,6 +143,22 @@ export const PROVIDERS: Record<string, ProviderInfo> = {
     docsUrl:
       "https://ai-sdk.dev/providers/community-providers/openrouter#model-capabilities",
     modelsListUrl: "https://openrouter.ai/models",
+    apiKeyEnv: ["OPENROUTER_API_KEY"],
+    pricing: {
+      "anthropic/claude-3.5-sonnet": { input: 3, output: 15 },
+      "openai/gpt-4o": { input: 2.5, output: 10 },
+      "google/gemini-pro-1.5": { input: 1.25, output: 5 },
+      "meta-llama/llama-3.1-405b-instruct": { input: 0.8, output: 0.8 },
+      "mistralai/mistral-large": { input: 2, output: 6 },
+    },
+    defaultContextWindow: 32768,
+    contextWindows: {
+      "anthropic/claude-3.5-sonnet": 200000,
+      "openai/gpt-4o": 128000,
+      "google/gemini-pro-1.5": 2000000,
+      "meta-llama/llama-3.1-405b-instruct": 131072,
+      "mistralai/mistral-large": 128000,
+    },
   },
 
   /** Groq - fast inference platform */
@@ -97,6 +173,19 @@ export const PROVIDERS: Record<string, ProviderInfo> = {
     docsUrl:
       "https://ai-sdk.dev/providers/ai-sdk-providers/groq#model-capabilities",
     modelsListUrl: "https://console.groq.com/docs/models",
+    apiKeyEnv: ["GROQ_API_KEY"],
+    pricing: {
+      "llama-3.1-70b-versatile": { input: 0.59, output: 0.79 },
+      "llama-3.1-8b-instant": { input: 0.05, output: 0.08 },
+      "mixtral-8x7b-32768": { input: 0.24, output: 0.24 },
+      "gemma2-9b-it": { input: 0.2, output: 0.2 },
+    },
+    defaultContextWindow: 8192,
+    contextWindows: {
+      "llama-3.1-70b-versatile": 131072,
+      "llama-3.1-8b-instant": 131072,
+      "mixtral-8x7b-32768": 32768,
+    },
   },
 
   /** Mistral AI models */
@@ -110,6 +199,18 @@ export const PROVIDERS: Record<string, ProviderInfo> = {
     ],
     docsUrl:
       "https://ai-sdk.dev/providers/ai-sdk-providers/mistral#model-capabilities",
+    apiKeyEnv: ["MISTRAL_API_KEY"],
+    pricing: {
+      "mistral-large-latest": { input: 2, output: 6 },
+      "mistral-medium-latest": { input: 0.4, output: 2 },
+      "mistral-small-latest": { input: 0.2, output: 0.6 },
+      "codestral-latest": { input: 0.3, output: 0.9 },
+    },
+    defaultContextWindow: 32000,
+    contextWindows: {
+      "mistral-large-latest": 128000,
+      "mistral-medium-latest": 128000,
+    },
   },
 
   /** Google's Gemini models */
@@ -122,9 +223,76 @@ export const PROVIDERS: Record<string, ProviderInfo> = {
     ],
     docsUrl:
       "https://ai-sdk.dev/providers/ai-sdk-providers/google-generative-ai#model-capabilities",
+    apiKeyEnv: ["GOOGLE_GENERATIVE_AI_API_KEY", "GEMINI_API_KEY"],
+    pricing: {
+      "gemini-1.5-pro": { input: 1.25, output: 5 },
+      "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+      "gemini-1.0-pro": { input: 0.5, output: 1.5 },
+    },
+    defaultContextWindow: 1000000,
+    contextWindows: {
+      "gemini-1.5-pro": 2000000,
+      "gemini-1.0-pro": 32760,
+    },
+  },
+
+  /** Ollama - locally hosted open models */
+  ollama: {
+    name: "Ollama (local)",
+    models: [
+      "llama3.2", // Small general-purpose Llama model
+      "qwen2.5-coder", // Code-specialized model
+      "mistral", // Mistral 7B
+      "phi3", // Microsoft's small model
+    ],
+    docsUrl: "https://github.com/ollama/ollama/blob/main/docs/openai.md",
+    modelsListUrl: "https://ollama.com/library",
+    local: true,
+    defaultBaseUrl: "http://localhost:11434/v1",
+    defaultContextWindow: 4096, // Ollama's default num_ctx
+  },
+
+  /** LM Studio - local model server */
+  lmstudio: {
+    name: "LM Studio (local)",
+    models: [
+      "qwen2.5-7b-instruct", // Qwen 2.5 instruct model
+      "llama-3.2-3b-instruct", // Small Llama model
+    ],
+    docsUrl: "https://lmstudio.ai/docs/app/api/endpoints/openai",
+    local: true,
+    defaultBaseUrl: "http://localhost:1234/v1",
+    defaultContextWindow: 4096,
+  },
+
+  /** Any OpenAI-compatible server (llama.cpp server, vLLM, LocalAI, ...) */
+  "openai-compatible": {
+    name: "OpenAI-compatible (local)",
+    models: [
+      "default", // llama.cpp server serves whichever model it was started with
+    ],
+    docsUrl: "https://ai-sdk.dev/providers/openai-compatible-providers",
+    local: true,
+    defaultContextWindow: 4096,
   },
 };
 
+/**
+ * Looks up the context window of a model in tokens
+ *
+ * @param provider - Provider name
+ * @param model - Model identifier
+ * @returns Known context window, the provider default, or a conservative fallback
+ */
+export function getContextWindow(provider: string, model: string): number {
+  const info = PROVIDERS[provider];
+  return (
+    info?.contextWindows?.[model] ||
+    info?.defaultContextWindow ||
+    FALLBACK_CONTEXT_WINDOW
+  );
+}
+
 /**
  * Displays a formatted list of all available AI providers
  *
@@ -150,8 +318,16 @@ export function listProviders(): void {
       );
     }
 
+    if (provider.defaultBaseUrl) {
+      console.log(
+        `  ${chalk.bold("Default URL:")} ${chalk.gray(provider.defaultBaseUrl)}`,
+      );
+    }
+
     // Provide example configuration command
-    const exampleCommand = `aish config --provider ${key} --model ${provider.models[0]} --api-key YOUR_API_KEY`;
+    const exampleCommand = provider.local
+      ? `aish config --provider ${key} --model ${provider.models[0]} --base-url ${provider.defaultBaseUrl || "http://localhost:8080/v1"}`
+      : `aish config --provider ${key} --model ${provider.models[0]} --api-key YOUR_API_KEY`;
     console.log(`  ${chalk.bold("Example:")} ${chalk.gray(exampleCommand)}\n`);
   });
 }
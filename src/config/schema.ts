@@ -0,0 +1,330 @@
+/**
+ * Configuration Schema
+ *
+ * zod schema for ~/.config/aish/auth.json, mirroring the interfaces in
+ * config.ts. The file is validated after migrations run (see
+ * migrations.ts), so a hand-edited typo is reported with the file, the JSON
+ * path and what was expected instead of looking like an empty config.
+ *
+ * Unknown keys are reported as warnings rather than errors so a file
+ * written by a newer aish (or with a stray setting) still loads.
+ */
+
+import { z } from "zod";
+import { PROVIDERS } from "./providers";
+import type { Config } from "./config";
+import { assignAliases } from "./migrations";
+import { DEFAULT_PROFILE } from "./profiles";
+
+/** Characters allowed in a provider alias */
+export const ALIAS_PATTERN = /^[\w.-]+$/;
+
+/** Characters allowed in a profile name */
+const PROFILE_NAME_PATTERN = /^[\w.-]+$/;
+
+/**
+ * A problem found in a config file
+ */
+export interface ConfigIssue {
+  /** JSON path of the value, e.g. providers[0].preferredModel ("" for the whole file) */
+  path: string;
+  /** What is wrong, e.g. "expected string, received number" */
+  message: string;
+}
+
+/**
+ * Result of validating a config
+ */
+export interface ConfigValidation {
+  /** The config, when there are no errors */
+  config?: Config;
+  /** Problems that prevent the config from being used */
+  errors: ConfigIssue[];
+  /** Problems that are reported but don't stop loading (unknown keys) */
+  warnings: ConfigIssue[];
+}
+
+/**
+ * Thrown when a config file can't be read, parsed or validated
+ */
+export class ConfigError extends Error {
+  constructor(
+    public readonly file: string,
+    public readonly issues: ConfigIssue[],
+  ) {
+    super(
+      `Invalid config ${file}:\n${issues.map((issue) => `  ${formatConfigIssue(issue)}`).join("\n")}`,
+    );
+    this.name = "ConfigError";
+  }
+}
+
+/**
+ * Formats an issue as "path: message"
+ */
+export function formatConfigIssue(issue: ConfigIssue): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+}
+
+/**
+ * A string that must compile as a regular expression
+ */
+const regexString = z.string().refine(
+  (value) => {
+    try {
+      new RegExp(value);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: "expected a valid regular expression" },
+);
+
+const systemPromptsSchema = z.strictObject({
+  ask: z.string().optional(),
+  command: z.string().optional(),
+});
+
+/** Schema of a provider entry (also used for export files) */
+export const providerSchema = z.strictObject({
+  alias: z
+    .string()
+    .regex(ALIAS_PATTERN, 'expected letters, digits, ".", "-" and "_"')
+    .optional(),
+  provider: z.enum(Object.keys(PROVIDERS) as [string, ...string[]]),
+  preferredModel: z.string(),
+  apiKey: z.string().optional(),
+  apiKeyCommand: z.string().optional(),
+  baseUrl: z
+    .string()
+    .regex(/^https?:\/\//, "expected an http:// or https:// URL")
+    .optional(),
+  systemPrompts: systemPromptsSchema.optional(),
+});
+
+/** Schema of a prompt template (also used for project files) */
+export const templateSchema = z.strictObject({
+  prompt: z.string(),
+  system: z.string().optional(),
+  description: z.string().optional(),
+});
+
+const policySchema = z.strictObject({
+  match: z.string(),
+  action: z.enum(["allow", "deny", "confirm"]),
+  directory: z.string().optional(),
+  reason: z.string().optional(),
+});
+
+const profileSchema = z.strictObject({
+  providers: z.array(providerSchema),
+  defaultProvider: z.string().optional(),
+  fallbackProviders: z.array(z.string()).optional(),
+  policies: z.array(policySchema).optional(),
+  systemPrompts: systemPromptsSchema.optional(),
+  templates: z.record(z.string(), templateSchema).optional(),
+  context: z.string().optional(),
+});
+
+/** Schema of auth.json after migrations */
+export const configSchema = z.strictObject({
+  version: z.number().int().nonnegative().optional(),
+  providers: z.array(providerSchema),
+  defaultProvider: z.string().optional(),
+  fallbackProviders: z.array(z.string()).optional(),
+  retry: z
+    .strictObject({
+      maxAttempts: z.number().int().min(1).optional(),
+      baseDelayMs: z.number().nonnegative().optional(),
+      maxDelayMs: z.number().nonnegative().optional(),
+    })
+    .optional(),
+  safety: z
+    .strictObject({
+      rules: z
+        .array(
+          z.strictObject({
+            pattern: regexString,
+            reason: z.string().optional(),
+          }),
+        )
+        .optional(),
+      disabledRules: z.array(z.string()).optional(),
+    })
+    .optional(),
+  policies: z.array(policySchema).optional(),
+  redaction: z
+    .strictObject({
+      enabled: z.boolean().optional(),
+      entropy: z.boolean().optional(),
+      patterns: z.array(regexString).optional(),
+    })
+    .optional(),
+  history: z.strictObject({ enabled: z.boolean().optional() }).optional(),
+  systemPrompts: systemPromptsSchema.optional(),
+  context: z.string().optional(),
+  templates: z.record(z.string(), templateSchema).optional(),
+  vault: z
+    .strictObject({
+      mode: z.enum(["keyfile", "passphrase"]),
+      salt: z.string().optional(),
+      cost: z.number().int().positive().optional(),
+      check: z.string().optional(),
+    })
+    .optional(),
+  profiles: z
+    .record(
+      z
+        .string()
+        .regex(
+          PROFILE_NAME_PATTERN,
+          'expected letters, digits, ".", "-" and "_"',
+        ),
+      profileSchema,
+    )
+    .optional(),
+  activeProfile: z.string().optional(),
+});
+
+/**
+ * Formats a zod path as a JSON path
+ *
+ * @example formatPath(["providers", 0, "model"]) // "providers[0].model"
+ */
+function formatPath(path: readonly PropertyKey[]): string {
+  return path.reduce<string>((result, key) => {
+    if (typeof key === "number") {
+      return `${result}[${key}]`;
+    }
+    const name = String(key);
+    if (!/^[A-Za-z_$][\w$]*$/.test(name)) {
+      return `${result}[${JSON.stringify(name)}]`;
+    }
+    return result ? `${result}.${name}` : name;
+  }, "");
+}
+
+/**
+ * Strips zod's generic prefix so messages read "expected string, received number"
+ */
+function formatMessage(issue: z.core.$ZodIssue): string {
+  return issue.message.replace(/^Invalid (input|option): /, "");
+}
+
+/**
+ * Converts a zod issue to a config issue
+ */
+export function toConfigIssue(issue: z.core.$ZodIssue): ConfigIssue {
+  return { path: formatPath(issue.path), message: formatMessage(issue) };
+}
+
+/**
+ * Checks that default and fallback providers name configured entries
+ *
+ * @param prefix - JSON path of the providers' parent ("" or profiles.x)
+ */
+function checkProviderReferences(
+  providers: Config["providers"],
+  defaultProvider: string | undefined,
+  fallbackProviders: string[] | undefined,
+  prefix: string,
+): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const at = (path: string) => (prefix ? `${prefix}.${path}` : path);
+  const aliases = providers.map((p) => p.alias);
+  const expected =
+    aliases.length > 0
+      ? `expected one of ${aliases.map((a) => JSON.stringify(a)).join("|")}`
+      : "no providers are configured";
+
+  aliases.forEach((alias, index) => {
+    const first = aliases.indexOf(alias);
+    if (first !== index) {
+      issues.push({
+        path: at(`providers[${index}].alias`),
+        message: `"${alias}" is already used by providers[${first}]`,
+      });
+    }
+  });
+  if (defaultProvider !== undefined && !aliases.includes(defaultProvider)) {
+    issues.push({
+      path: at("defaultProvider"),
+      message: `unknown provider "${defaultProvider}" (${expected})`,
+    });
+  }
+  fallbackProviders?.forEach((name, index) => {
+    if (!aliases.includes(name)) {
+      issues.push({
+        path: at(`fallbackProviders[${index}]`),
+        message: `unknown provider "${name}" (${expected})`,
+      });
+    }
+  });
+  return issues;
+}
+
+/**
+ * Validates a migrated config
+ *
+ * Entries without an alias get one, then default and fallback providers
+ * are checked against the aliases in the same profile.
+ *
+ * @param raw - Parsed JSON after migrations (modified in place when valid)
+ */
+export function validateConfig(raw: unknown): ConfigValidation {
+  const errors: ConfigIssue[] = [];
+  const warnings: ConfigIssue[] = [];
+
+  const result = configSchema.safeParse(raw);
+  for (const issue of result.success ? [] : result.error.issues) {
+    if (issue.code === "unrecognized_keys") {
+      for (const key of issue.keys) {
+        warnings.push({
+          path: formatPath([...issue.path, key]),
+          message: "unknown setting (ignored)",
+        });
+      }
+    } else {
+      errors.push(toConfigIssue(issue));
+    }
+  }
+  if (errors.length > 0) {
+    return { errors, warnings };
+  }
+
+  // Unknown keys are kept so saving doesn't drop them
+  const config = raw as Config;
+  assignAliases(config.providers);
+  errors.push(
+    ...checkProviderReferences(
+      config.providers,
+      config.defaultProvider,
+      config.fallbackProviders,
+      "",
+    ),
+  );
+  for (const [name, profile] of Object.entries(config.profiles || {})) {
+    assignAliases(profile.providers);
+    errors.push(
+      ...checkProviderReferences(
+        profile.providers,
+        profile.defaultProvider,
+        profile.fallbackProviders,
+        formatPath(["profiles", name]),
+      ),
+    );
+  }
+  if (
+    config.activeProfile !== undefined &&
+    config.activeProfile !== DEFAULT_PROFILE &&
+    !config.profiles?.[config.activeProfile]
+  ) {
+    errors.push({
+      path: "activeProfile",
+      message: `unknown profile "${config.activeProfile}"`,
+    });
+  }
+
+  return errors.length > 0 ? { errors, warnings } : { config, errors, warnings };
+}
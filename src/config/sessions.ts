@@ -0,0 +1,169 @@
+/**
+ * Conversation Session Store
+ *
+ * Named, resumable conversations stored as JSON files under
+ * ~/.config/aish/sessions/. `ask`, `chat` and `command` append their turns
+ * to a session selected with `--session <name>` so later runs pick up the
+ * earlier context.
+ */
+
+import { join } from "path";
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  unlinkSync,
+} from "fs";
+import type { ModelMessage } from "ai";
+import { CONFIG_DIR, ensureConfigDir } from "./config";
+import { CONFIG_DIR_MODE, CONFIG_FILE_MODE, writeFileAtomic } from "./storage";
+
+/**
+ * A stored conversation
+ */
+export interface Session {
+  /** Session name (file name without extension) */
+  name: string;
+  /** ISO timestamp of the first turn */
+  createdAt: string;
+  /** ISO timestamp of the last turn */
+  updatedAt: string;
+  /** System prompt used by chat sessions */
+  system?: string;
+  /** Conversation so far */
+  messages: ModelMessage[];
+  /** Provider and model of the last reply */
+  provider?: string;
+  model?: string;
+}
+
+/** Directory holding one JSON file per session */
+const SESSIONS_DIR = join(CONFIG_DIR, "sessions");
+
+/** Allowed session names (also safe as file names) */
+const SESSION_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+/**
+ * Returns the file path of a session, validating the name
+ *
+ * @throws Error if the name contains characters unsafe for a file name
+ */
+function sessionPath(name: string): string {
+  if (!SESSION_NAME_PATTERN.test(name)) {
+    throw new Error(
+      `Invalid session name "${name}". Use letters, digits, ".", "_" and "-".`,
+    );
+  }
+  return join(SESSIONS_DIR, `${name}.json`);
+}
+
+/**
+ * Loads a session by name
+ *
+ * @returns The session, or undefined if it doesn't exist
+ */
+export function loadSession(name: string): Session | undefined {
+  const path = sessionPath(name);
+  if (!existsSync(path)) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(readFileSync(path, "utf-8")) as Session;
+  } catch {
+    throw new Error(`Session "${name}" is corrupted (${path}).`);
+  }
+}
+
+/**
+ * Loads a session, or starts a new empty one with that name
+ */
+export function openSession(name: string): Session {
+  const existing = loadSession(name);
+  if (existing) {
+    return existing;
+  }
+
+  const now = new Date().toISOString();
+  return { name, createdAt: now, updatedAt: now, messages: [] };
+}
+
+/**
+ * Writes a session to disk, updating its timestamp
+ *
+ * Sessions hold whole conversations, so they are private to the user like
+ * auth.json.
+ */
+export function saveSession(session: Session): void {
+  const path = sessionPath(session.name);
+  ensureConfigDir();
+  if (!existsSync(SESSIONS_DIR)) {
+    mkdirSync(SESSIONS_DIR, { recursive: true, mode: CONFIG_DIR_MODE });
+  }
+
+  session.updatedAt = new Date().toISOString();
+  writeFileAtomic(path, JSON.stringify(session, null, 2), CONFIG_FILE_MODE);
+}
+
+/**
+ * Lists all sessions, most recently used first
+ */
+export function listSessions(): Session[] {
+  if (!existsSync(SESSIONS_DIR)) {
+    return [];
+  }
+
+  const sessions: Session[] = [];
+  for (const file of readdirSync(SESSIONS_DIR)) {
+    if (!file.endsWith(".json")) continue;
+    try {
+      sessions.push(
+        JSON.parse(readFileSync(join(SESSIONS_DIR, file), "utf-8")) as Session,
+      );
+    } catch {
+      // Skip unreadable session files
+    }
+  }
+
+  return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Deletes a session
+ *
+ * @returns false if the session didn't exist
+ */
+export function deleteSession(name: string): boolean {
+  const path = sessionPath(name);
+  if (!existsSync(path)) {
+    return false;
+  }
+  unlinkSync(path);
+  return true;
+}
+
+/**
+ * Text content of a message (non-text parts are skipped)
+ */
+export function messageText(message: ModelMessage): string {
+  if (typeof message.content === "string") {
+    return message.content;
+  }
+  return message.content
+    .map((part) => ("text" in part && typeof part.text === "string" ? part.text : ""))
+    .join("");
+}
+
+/**
+ * Renders a conversation as a markdown transcript
+ */
+export function formatTranscript(messages: ModelMessage[]): string {
+  return messages
+    .filter((message) => message.role === "user" || message.role === "assistant")
+    .map(
+      (message) =>
+        `## ${message.role === "user" ? "You" : "Assistant"}\n\n${messageText(message)}\n`,
+    )
+    .join("\n");
+}
@@ -0,0 +1,339 @@
+/**
+ * Config File Storage
+ *
+ * Keeps auth.json intact when several aish processes change it at once or
+ * one of them dies mid-write:
+ * - Writes go to a temporary file that is renamed over auth.json, so the
+ *   file is always either the old or the new version.
+ * - Load-modify-save sequences hold an advisory lock (auth.json.lock).
+ *   Locks left by processes that no longer run are taken over.
+ * - The previous version is copied to ~/.config/aish/backups/ before each
+ *   write; the newest MAX_CONFIG_BACKUPS are kept for `aish config restore`.
+ */
+
+import {
+  chmodSync,
+  closeSync,
+  copyFileSync,
+  existsSync,
+  fstatSync,
+  fsyncSync,
+  linkSync,
+  mkdirSync,
+  openSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeSync,
+} from "fs";
+import { homedir } from "os";
+import { basename, join } from "path";
+
+/** Directory path for storing configuration files */
+export const CONFIG_DIR = join(homedir(), ".config", "aish");
+
+/** Full path to the configuration file */
+export const CONFIG_FILE = join(CONFIG_DIR, "auth.json");
+
+/** Permissions enforced on the configuration directory and file */
+export const CONFIG_DIR_MODE = 0o700;
+export const CONFIG_FILE_MODE = 0o600;
+
+/** Directory holding copies of auth.json from before each write */
+export const BACKUP_DIR = join(CONFIG_DIR, "backups");
+
+/** Number of backups kept */
+export const MAX_CONFIG_BACKUPS = 10;
+
+/** Lock file held while auth.json is read, modified and written */
+const LOCK_FILE = `${CONFIG_FILE}.lock`;
+
+/** How long to wait for another process to release the lock */
+const LOCK_TIMEOUT_MS = 10_000;
+
+/** How long to sleep between attempts to take the lock */
+const LOCK_RETRY_MS = 50;
+
+/** Nesting depth of withConfigLock() in this process */
+let lockDepth = 0;
+
+/**
+ * Ensures the configuration directory exists
+ * Creates the directory structure (private to the user) if it doesn't exist
+ */
+export function ensureConfigDir(): void {
+  if (!existsSync(CONFIG_DIR)) {
+    mkdirSync(CONFIG_DIR, { recursive: true, mode: CONFIG_DIR_MODE });
+  }
+}
+
+/**
+ * A saved copy of auth.json
+ */
+export interface ConfigBackup {
+  /** Full path of the backup */
+  path: string;
+  /** File name, e.g. auth-2025-01-31T10-00-00-000Z.json */
+  name: string;
+  /** When the backup was made */
+  date: Date;
+  /** Why it was made (migration, restore), if not a regular save */
+  label?: string;
+}
+
+/**
+ * Writes a file by renaming a fully written temporary file over it
+ *
+ * @param mode - Permissions of the new file
+ */
+export function writeFileAtomic(
+  path: string,
+  content: string,
+  mode: number = CONFIG_FILE_MODE,
+): void {
+  const temp = `${path}.${process.pid}.tmp`;
+  try {
+    const fd = openSync(temp, "w", mode);
+    try {
+      writeSync(fd, content);
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+    // The mode above is reduced by the umask
+    chmodSync(temp, mode);
+    renameSync(temp, path);
+  } catch (error) {
+    rmSync(temp, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Creates the lock file with this process's pid in it
+ *
+ * The pid is written to a temporary file that is then hard-linked as the
+ * lock, so the lock never exists without the pid of its owner.
+ *
+ * @returns false if another process holds the lock
+ */
+function createLockFile(): boolean {
+  const temp = `${LOCK_FILE}.${process.pid}.tmp`;
+  try {
+    const fd = openSync(temp, "w", CONFIG_FILE_MODE);
+    try {
+      writeSync(fd, `${process.pid}\n`);
+    } finally {
+      closeSync(fd);
+    }
+    linkSync(temp, LOCK_FILE);
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+      return false;
+    }
+    throw error;
+  } finally {
+    rmSync(temp, { force: true });
+  }
+}
+
+/**
+ * Returns the inode of the lock file if the process holding it is gone
+ *
+ * A lock is only abandoned when its process no longer runs; a slow but live
+ * holder keeps it however long it takes.
+ */
+function staleLockInode(): number | undefined {
+  let fd: number;
+  try {
+    fd = openSync(LOCK_FILE, "r");
+  } catch {
+    // Released in the meantime
+    return undefined;
+  }
+  try {
+    const { ino } = fstatSync(fd);
+    const pid = parseInt(readFileSync(fd, "utf-8"), 10);
+    if (!pid) {
+      // Not written by aish
+      return ino;
+    }
+    try {
+      process.kill(pid, 0);
+      return undefined;
+    } catch (error) {
+      // ESRCH: no such process. EPERM: it runs as another user.
+      return (error as NodeJS.ErrnoException).code === "ESRCH"
+        ? ino
+        : undefined;
+    }
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Removes an abandoned lock without removing a newer one
+ *
+ * Another process may take over the same lock and create a new one between
+ * the check and the removal. The lock is therefore moved aside first and
+ * only deleted if it is the file that was found abandoned; otherwise it is
+ * put back.
+ *
+ * @param inode - Inode of the abandoned lock
+ */
+function removeStaleLock(inode: number): void {
+  const moved = `${LOCK_FILE}.${process.pid}.stale`;
+  try {
+    renameSync(LOCK_FILE, moved);
+  } catch {
+    // Already removed by another process
+    return;
+  }
+  try {
+    if (statSync(moved).ino !== inode) {
+      linkSync(moved, LOCK_FILE);
+    }
+  } catch {
+    // A newer lock already took its place
+  } finally {
+    rmSync(moved, { force: true });
+  }
+}
+
+/**
+ * Takes the config lock, waiting for other processes to release it
+ *
+ * @throws Error if the lock isn't released within LOCK_TIMEOUT_MS
+ */
+function acquireConfigLock(): void {
+  ensureConfigDir();
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  while (!createLockFile()) {
+    const staleInode = staleLockInode();
+    if (staleInode !== undefined) {
+      removeStaleLock(staleInode);
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(
+        `Another aish process is changing the configuration. Try again, or delete ${LOCK_FILE} if no aish is running.`,
+      );
+    }
+    Bun.sleepSync(LOCK_RETRY_MS);
+  }
+}
+
+/**
+ * Runs a function while holding the config lock
+ *
+ * Nested calls in the same process reuse the lock, so a locked
+ * load-modify-save can call saveConfig(), which locks too.
+ *
+ * @returns What the function returns
+ */
+export function withConfigLock<T>(fn: () => T): T {
+  const outermost = lockDepth === 0;
+  if (outermost) {
+    acquireConfigLock();
+  }
+  lockDepth++;
+  try {
+    return fn();
+  } finally {
+    lockDepth--;
+    if (outermost) {
+      rmSync(LOCK_FILE, { force: true });
+    }
+  }
+}
+
+/**
+ * Lists the backups of auth.json, newest first
+ */
+export function listConfigBackups(): ConfigBackup[] {
+  if (!existsSync(BACKUP_DIR)) {
+    return [];
+  }
+
+  const backups: ConfigBackup[] = [];
+  for (const name of readdirSync(BACKUP_DIR)) {
+    // auth-<ISO time with : and . replaced>[-label].json
+    const match = name.match(
+      /^auth-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z(?:-([\w.-]+))?\.json$/,
+    );
+    if (!match) continue;
+    const [, day, hours, minutes, seconds, ms, label] = match;
+    backups.push({
+      path: join(BACKUP_DIR, name),
+      name,
+      date: new Date(`${day}T${hours}:${minutes}:${seconds}.${ms}Z`),
+      ...(label ? { label } : {}),
+    });
+  }
+  return backups.sort((a, b) => b.name.localeCompare(a.name));
+}
+
+/**
+ * Copies auth.json into the backups directory and drops the oldest backups
+ *
+ * @param label - Added to the file name (e.g. the version being migrated)
+ * @returns Path of the backup, or undefined if there is no auth.json yet
+ */
+export function backupConfigFile(label?: string): string | undefined {
+  if (!existsSync(CONFIG_FILE)) {
+    return undefined;
+  }
+
+  mkdirSync(BACKUP_DIR, { recursive: true, mode: CONFIG_DIR_MODE });
+  const backupPath = (time: number) =>
+    join(
+      BACKUP_DIR,
+      `auth-${new Date(time).toISOString().replace(/[:.]/g, "-")}${label ? `-${label}` : ""}.json`,
+    );
+  // Several writes can happen within a millisecond; keep names in time order
+  let time = Date.now();
+  while (existsSync(backupPath(time))) {
+    time++;
+  }
+  const backup = backupPath(time);
+  copyFileSync(CONFIG_FILE, backup);
+  chmodSync(backup, CONFIG_FILE_MODE);
+
+  for (const old of listConfigBackups().slice(MAX_CONFIG_BACKUPS)) {
+    rmSync(old.path, { force: true });
+  }
+  return backup;
+}
+
+/**
+ * Finds a backup by number (1 = newest), file name or path
+ */
+export function findConfigBackup(name: string): ConfigBackup | undefined {
+  const backups = listConfigBackups();
+  if (/^\d+$/.test(name)) {
+    return backups[parseInt(name, 10) - 1];
+  }
+  return backups.find(
+    (backup) => backup.name === basename(name) || backup.path === name,
+  );
+}
+
+/**
+ * Replaces auth.json with a backup
+ *
+ * The current file is backed up first, so a restore can be undone.
+ *
+ * @returns Path of the backup of the replaced file, if there was one
+ */
+export function restoreConfigBackup(backup: ConfigBackup): string | undefined {
+  return withConfigLock(() => {
+    const content = readFileSync(backup.path, "utf-8");
+    const previous = backupConfigFile("before-restore");
+    writeFileAtomic(CONFIG_FILE, content);
+    return previous;
+  });
+}
@@ -0,0 +1,162 @@
+/**
+ * Token Usage Ledger
+ *
+ * Records input/output token counts for every AI call, prices them using the
+ * per-model rates in PROVIDERS, and appends the records to
+ * ~/.config/aish/usage.jsonl. Also keeps a running total for the current
+ * process so commands can report what a single run cost.
+ */
+
+import { join } from "path";
+import { appendFileSync, existsSync, readFileSync } from "fs";
+import { CONFIG_DIR, ensureConfigDir } from "./config";
+import { CONFIG_FILE_MODE } from "./storage";
+import { PROVIDERS } from "./providers";
+
+/**
+ * A single priced AI call
+ */
+export interface UsageRecord {
+  /** ISO timestamp of the call */
+  timestamp: string;
+  /** Provider identifier (e.g., 'openai') */
+  provider: string;
+  /** Model that answered */
+  model: string;
+  /** Prompt tokens */
+  inputTokens: number;
+  /** Completion tokens */
+  outputTokens: number;
+  /** Estimated cost in USD, or null when the model has no known rates */
+  cost: number | null;
+}
+
+/**
+ * Aggregated token counts and cost
+ */
+export interface UsageTotals {
+  /** Number of AI calls */
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  /** Estimated cost in USD for calls with known rates */
+  cost: number;
+}
+
+/** Full path to the usage ledger */
+const USAGE_FILE = join(CONFIG_DIR, "usage.jsonl");
+
+/** Totals for AI calls made by this process */
+const sessionTotals: UsageTotals = emptyTotals();
+
+/**
+ * Creates a zeroed totals object
+ */
+export function emptyTotals(): UsageTotals {
+  return {
+    requests: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    cost: 0,
+  };
+}
+
+/**
+ * Estimates the cost of a call from the provider's per-model rates
+ *
+ * Local providers are free. Unknown models return null.
+ *
+ * @returns Cost in USD, or null if no rates are known
+ */
+export function estimateCost(
+  provider: string,
+  model: string,
+  inputTokens: number,
+  outputTokens: number,
+): number | null {
+  const providerInfo = PROVIDERS[provider];
+  if (providerInfo?.local) {
+    return 0;
+  }
+
+  const rates = providerInfo?.pricing?.[model];
+  if (!rates) {
+    return null;
+  }
+
+  return (inputTokens * rates.input + outputTokens * rates.output) / 1_000_000;
+}
+
+/**
+ * Records a completed AI call in the session totals and the ledger
+ *
+ * Ledger write failures are ignored so accounting never breaks a command.
+ */
+export function recordUsage(
+  provider: string,
+  model: string,
+  inputTokens: number,
+  outputTokens: number,
+): UsageRecord {
+  const record: UsageRecord = {
+    timestamp: new Date().toISOString(),
+    provider,
+    model,
+    inputTokens,
+    outputTokens,
+    cost: estimateCost(provider, model, inputTokens, outputTokens),
+  };
+
+  addToTotals(sessionTotals, record);
+
+  try {
+    ensureConfigDir();
+    appendFileSync(USAGE_FILE, JSON.stringify(record) + "\n", {
+      mode: CONFIG_FILE_MODE,
+    });
+  } catch {
+    // Accounting is best-effort
+  }
+
+  return record;
+}
+
+/**
+ * Returns totals for AI calls made by this process
+ */
+export function getSessionUsage(): UsageTotals {
+  return { ...sessionTotals };
+}
+
+/**
+ * Loads all records from the ledger, skipping malformed lines
+ */
+export function loadUsageRecords(): UsageRecord[] {
+  if (!existsSync(USAGE_FILE)) {
+    return [];
+  }
+
+  const records: UsageRecord[] = [];
+  for (const line of readFileSync(USAGE_FILE, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line) as UsageRecord);
+    } catch {
+      // Skip partially written lines
+    }
+  }
+  return records;
+}
+
+/**
+ * Adds a record to a totals object in place
+ */
+export function addToTotals(totals: UsageTotals, record: UsageRecord): void {
+  totals.requests += 1;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.totalTokens += record.inputTokens + record.outputTokens;
+  totals.cost += record.cost ?? 0;
+}
@@ -0,0 +1,413 @@
+/**
+ * Credential Vault
+ *
+ * Encrypts the `apiKey` values saved in auth.json with AES-256-GCM. The
+ * encryption key comes either from a random key file next to the config
+ * (~/.config/aish/vault.key, mode 0600) or from a passphrase run through
+ * scrypt. Keys are decrypted only when a model is created, so a passphrase
+ * is asked for only by commands that talk to a provider.
+ *
+ * Encrypted values look like `vault:v1:<base64 iv | tag | ciphertext>`.
+ */
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scryptSync,
+} from "crypto";
+import { spawnSync } from "child_process";
+import { chmodSync, existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import {
+  CONFIG_DIR,
+  ensureConfigDir,
+  type Config,
+  type ProviderConfig,
+  type VaultConfig,
+} from "./config";
+
+/** Prefix marking an encrypted value */
+const ENCRYPTED_PREFIX = "vault:v1:";
+
+/** Environment variable read before prompting for the passphrase */
+export const VAULT_PASSPHRASE_ENV = "AISH_VAULT_PASSPHRASE";
+
+/** scrypt cost parameters for passphrase-derived keys */
+const SCRYPT_COST = 16384;
+
+/** Plaintext encrypted into `check` to recognize a wrong passphrase */
+const CHECK_TEXT = "aish-vault";
+
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/** Derived or loaded keys, so a passphrase is asked for once per process */
+const keyCache = new Map<string, Buffer>();
+
+/**
+ * Where a passphrase comes from when it isn't typed in
+ */
+export interface PassphraseSource {
+  /** Environment variable read before prompting */
+  env: string;
+  /** What the passphrase protects, shown in prompts (e.g. "vault") */
+  label: string;
+  /** Error when there is neither the variable nor a terminal */
+  unavailable: string;
+}
+
+/** Passphrase of the credential vault */
+const VAULT_PASSPHRASE: PassphraseSource = {
+  env: VAULT_PASSPHRASE_ENV,
+  label: "vault",
+  unavailable: `The credential vault is locked. Set ${VAULT_PASSPHRASE_ENV} or run aish in a terminal.`,
+};
+
+/**
+ * Path of the vault key file
+ */
+export function vaultKeyFile(): string {
+  return join(CONFIG_DIR, "vault.key");
+}
+
+/**
+ * Whether a value was encrypted by the vault
+ */
+export function isEncrypted(value?: string): boolean {
+  return value?.startsWith(ENCRYPTED_PREFIX) ?? false;
+}
+
+/**
+ * Encrypts a string with a key
+ */
+function encrypt(plaintext: string, key: Buffer): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const data = Buffer.concat([cipher.update(plaintext, "utf-8"), cipher.final()]);
+  return (
+    ENCRYPTED_PREFIX +
+    Buffer.concat([iv, cipher.getAuthTag(), data]).toString("base64")
+  );
+}
+
+/**
+ * Decrypts a value produced by encrypt()
+ *
+ * @returns The plaintext, or undefined if the key doesn't match
+ */
+function decrypt(value: string, key: Buffer): string | undefined {
+  const raw = Buffer.from(value.slice(ENCRYPTED_PREFIX.length), "base64");
+  try {
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      key,
+      raw.subarray(0, IV_BYTES),
+    );
+    decipher.setAuthTag(raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+    return Buffer.concat([
+      decipher.update(raw.subarray(IV_BYTES + TAG_BYTES)),
+      decipher.final(),
+    ]).toString("utf-8");
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads a passphrase from the terminal without echoing it
+ *
+ * The prompt needs to be synchronous because configs are loaded and saved
+ * synchronously, so it reads /dev/tty through the shell.
+ *
+ * @throws Error when there is no terminal to ask on
+ */
+function promptPassphrase(message: string, unavailable: string): string {
+  process.stderr.write(`🔑 ${message} `);
+  const result = spawnSync(
+    "sh",
+    [
+      "-c",
+      'stty -echo < /dev/tty && IFS= read -r p < /dev/tty; s=$?; stty echo < /dev/tty; printf "%s" "$p"; exit $s',
+    ],
+    { stdio: ["ignore", "pipe", "ignore"], encoding: "utf-8" },
+  );
+  process.stderr.write("\n");
+  if (result.status !== 0) {
+    throw new Error(unavailable);
+  }
+  return result.stdout;
+}
+
+/**
+ * Returns a passphrase from the environment or the terminal
+ *
+ * @param confirm - Ask twice (when setting a new passphrase)
+ * @param source - Which passphrase to read (the vault's by default)
+ */
+export function readPassphrase(
+  confirm: boolean,
+  source: PassphraseSource = VAULT_PASSPHRASE,
+): string {
+  const fromEnv = process.env[source.env];
+  if (fromEnv) {
+    return fromEnv;
+  }
+
+  const label = source.label[0]!.toUpperCase() + source.label.slice(1);
+  const passphrase = promptPassphrase(
+    confirm ? `New ${source.label} passphrase:` : `${label} passphrase:`,
+    source.unavailable,
+  );
+  if (!passphrase) {
+    throw new Error(`The ${source.label} passphrase can't be empty`);
+  }
+  if (
+    confirm &&
+    promptPassphrase("Repeat the passphrase:", source.unavailable) !==
+      passphrase
+  ) {
+    throw new Error("Passphrases don't match");
+  }
+  return passphrase;
+}
+
+/**
+ * Loads the key file, creating it with mode 0600 if asked to
+ *
+ * @throws Error if the file is missing or malformed
+ */
+function loadKeyFile(create: boolean): Buffer {
+  const path = vaultKeyFile();
+  if (!existsSync(path)) {
+    if (!create) {
+      throw new Error(
+        `Vault key file ${path} is missing, so stored API keys can't be decrypted. Restore it or add the keys again.`,
+      );
+    }
+    ensureConfigDir();
+    const key = randomBytes(KEY_BYTES);
+    writeFileSync(path, key.toString("base64") + "\n", { mode: 0o600 });
+    chmodSync(path, 0o600);
+    return key;
+  }
+
+  const key = Buffer.from(readFileSync(path, "utf-8").trim(), "base64");
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`Vault key file ${path} is not a valid key`);
+  }
+  return key;
+}
+
+/**
+ * Derives a passphrase vault's key
+ *
+ * @returns The key, or undefined if the passphrase doesn't match the check value
+ */
+function derivePassphraseKey(
+  vault: VaultConfig,
+  passphrase: string,
+): Buffer | undefined {
+  const key = scryptSync(
+    passphrase,
+    Buffer.from(vault.salt || "", "base64"),
+    KEY_BYTES,
+    { N: vault.cost || SCRYPT_COST },
+  );
+  if (vault.check && decrypt(vault.check, key) !== CHECK_TEXT) {
+    return undefined;
+  }
+  return key;
+}
+
+/**
+ * Returns the key for a vault, asking for the passphrase if needed
+ *
+ * @throws Error for a wrong passphrase or a missing key file
+ */
+function vaultKey(vault: VaultConfig): Buffer {
+  const cacheKey = vault.mode === "passphrase" ? `passphrase:${vault.salt}` : "keyfile";
+  const cached = keyCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  let key: Buffer;
+  if (vault.mode === "passphrase") {
+    const derived = derivePassphraseKey(vault, readPassphrase(false));
+    if (!derived) {
+      throw new Error("Wrong vault passphrase");
+    }
+    key = derived;
+  } else {
+    key = loadKeyFile(false);
+  }
+
+  keyCache.set(cacheKey, key);
+  return key;
+}
+
+/**
+ * Sets up a new vault and returns its settings
+ *
+ * @param mode - keyfile (default) or passphrase
+ */
+export function createVault(mode: VaultConfig["mode"]): VaultConfig {
+  if (mode === "passphrase") {
+    return createPassphraseVault(readPassphrase(true));
+  }
+
+  keyCache.set("keyfile", loadKeyFile(true));
+  return { mode: "keyfile" };
+}
+
+/**
+ * Returns passphrase vault settings for a given passphrase
+ *
+ * Also used for export files, which have a passphrase of their own.
+ */
+export function createPassphraseVault(passphrase: string): VaultConfig {
+  const salt = randomBytes(16).toString("base64");
+  const key = scryptSync(passphrase, Buffer.from(salt, "base64"), KEY_BYTES, {
+    N: SCRYPT_COST,
+  });
+  keyCache.set(`passphrase:${salt}`, key);
+  return {
+    mode: "passphrase",
+    salt,
+    cost: SCRYPT_COST,
+    check: encrypt(CHECK_TEXT, key),
+  };
+}
+
+/**
+ * Derives a passphrase vault's key from a given passphrase
+ *
+ * Afterwards sealSecret() and revealSecret() use the vault without asking.
+ *
+ * @throws Error if the passphrase is wrong
+ */
+export function unlockVault(vault: VaultConfig, passphrase: string): void {
+  const key = derivePassphraseKey(vault, passphrase);
+  if (!key) {
+    throw new Error("Wrong passphrase");
+  }
+  keyCache.set(`passphrase:${vault.salt}`, key);
+}
+
+/**
+ * Encrypts a value with a vault's key
+ */
+export function sealSecret(value: string, vault: VaultConfig): string {
+  return encrypt(value, vaultKey(vault));
+}
+
+/**
+ * Decrypts a stored API key
+ *
+ * @param vault - Vault settings from the config
+ * @returns Plain values unchanged, encrypted values decrypted
+ * @throws Error if the value can't be decrypted
+ */
+export function revealSecret(value: string, vault?: VaultConfig): string {
+  if (!isEncrypted(value)) {
+    return value;
+  }
+  if (!vault) {
+    throw new Error(
+      "An API key is encrypted but the config has no vault settings. Add the key again with 'aish config'.",
+    );
+  }
+  const plaintext = decrypt(value, vaultKey(vault));
+  if (plaintext === undefined) {
+    throw new Error(
+      vault.mode === "passphrase"
+        ? "Could not decrypt an API key with this passphrase"
+        : `Could not decrypt an API key with ${vaultKeyFile()}; it may have been replaced`,
+    );
+  }
+  return plaintext;
+}
+
+/**
+ * Whether a provider has an API key that isn't encrypted yet
+ */
+function hasPlaintextKey(provider: ProviderConfig): boolean {
+  return !!provider.apiKey && !isEncrypted(provider.apiKey);
+}
+
+/**
+ * All provider entries in a config, including those in profiles
+ */
+function allProviders(config: Config): ProviderConfig[] {
+  return [
+    ...config.providers,
+    ...Object.values(config.profiles || {}).flatMap((p) => p.providers || []),
+  ];
+}
+
+/**
+ * Returns a copy of a config with plaintext API keys encrypted
+ *
+ * The vault is created (with a key file) the first time there is a key to
+ * protect. Values that are already encrypted are left alone.
+ */
+export function sealConfig(config: Config): Config {
+  if (!allProviders(config).some(hasPlaintextKey)) {
+    return config;
+  }
+
+  const vault = config.vault || createVault("keyfile");
+  const key = vaultKey(vault);
+  const seal = (providers: ProviderConfig[] = []) =>
+    providers.map((p) =>
+      hasPlaintextKey(p) ? { ...p, apiKey: encrypt(p.apiKey!, key) } : p,
+    );
+  return {
+    ...config,
+    vault,
+    providers: seal(config.providers),
+    ...(config.profiles
+      ? {
+          profiles: Object.fromEntries(
+            Object.entries(config.profiles).map(([name, profile]) => [
+              name,
+              { ...profile, providers: seal(profile.providers) },
+            ]),
+          ),
+        }
+      : {}),
+  };
+}
+
+/**
+ * Re-encrypts every stored API key (in all profiles) with a new vault
+ *
+ * @param config - Config to update in place
+ * @returns The number of keys encrypted
+ */
+export function migrateSecrets(
+  config: Config,
+  mode: VaultConfig["mode"],
+): number {
+  const providers = allProviders(config).filter((p) => p.apiKey);
+  if (providers.length === 0) {
+    return 0;
+  }
+
+  // Decrypt with the old vault before the new one replaces it
+  const plaintext = providers.map((p) => revealSecret(p.apiKey!, config.vault));
+
+  // An existing key file is reused; a passphrase vault always gets a new one
+  const vault =
+    mode === "keyfile" && config.vault?.mode === "keyfile"
+      ? config.vault
+      : createVault(mode);
+  const key = vaultKey(vault);
+  config.vault = vault;
+  providers.forEach((p, index) => {
+    p.apiKey = encrypt(plaintext[index]!, key);
+  });
+  return providers.length;
+}
@@ -15,6 +15,11 @@ import { setupUpdateCommand } from "./commands/update";
 import { setupUninstallCommand } from "./commands/uninstall";
 import { setupAskCommand } from "./commands/ask";
 import { setupCommandCommand } from "./commands/command";
+import { setupUsageCommand } from "./commands/usage";
+import { setupHistoryCommand } from "./commands/history";
+import { setupChatCommand } from "./commands/chat";
+import { setupSessionsCommand } from "./commands/sessions";
+import { setProfileOverride } from "./config/profiles";
 
 // Handle Ctrl+C gracefully
 process.on("SIGINT", () => {
@@ -31,16 +36,24 @@ const VERSION = typeof AISH_VERSION !== "undefined" ? AISH_VERSION : "0.0.0";
 program
   .name("aish")
   .description("AI Shell - Your AI-powered command line assistant")
-  .version(VERSION);
+  .version(VERSION)
+  .option("--profile <name>", "configuration profile to use (overrides AISH_PROFILE)")
+  .hook("preAction", () => {
+    setProfileOverride(program.opts().profile);
+  });
 
 /**
  * Setup all commands
  */
 setupAskCommand(program);
+setupChatCommand(program);
 setupConfigCommand(program);
 setupUpdateCommand(program);
 setupUninstallCommand(program);
 setupCommandCommand(program);
+setupUsageCommand(program);
+setupHistoryCommand(program);
+setupSessionsCommand(program);
 
 // Parse command line arguments and execute
 program.parse();
@@ -0,0 +1,36 @@
+/**
+ * Date Helpers
+ *
+ * Shared date parsing and formatting for report-style commands
+ * (`aish usage`, `aish history`).
+ */
+
+/**
+ * Formats a date as YYYY-MM-DD in local time
+ */
+export function formatDay(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parses --since as an absolute date (YYYY-MM-DD) or relative days (e.g. 7d)
+ */
+export function parseSince(since: string): Date {
+  const relative = since.match(/^(\d+)d$/);
+  if (relative) {
+    const date = new Date();
+    date.setHours(0, 0, 0, 0);
+    date.setDate(date.getDate() - Number(relative[1]) + 1);
+    return date;
+  }
+
+  const date = new Date(`${since}T00:00:00`);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(
+      `Invalid --since value "${since}". Use YYYY-MM-DD or a day count like 7d.`,
+    );
+  }
+  return date;
+}
@@ -0,0 +1,345 @@
+/**
+ * File Context
+ *
+ * Reads files named with `--file` and files matched by `--context` globs so
+ * they can be attached to prompts as labelled sections. Binary files are
+ * skipped, glob matches respect .gitignore, and each file as well as the
+ * whole set is capped by a token budget derived from the model's context
+ * window.
+ */
+
+import { Glob } from "bun";
+import { spawnSync } from "child_process";
+import {
+  closeSync,
+  existsSync,
+  openSync,
+  readFileSync,
+  readSync,
+  statSync,
+} from "fs";
+import { join, relative, resolve } from "path";
+
+/** Rough characters-per-token ratio used for budgeting */
+const CHARS_PER_TOKEN = 4;
+
+/** Share of the context window that attached files may take */
+const CONTEXT_SHARE = 0.5;
+
+/** Upper bound on attached tokens regardless of context window, to bound cost */
+const MAX_TOTAL_TOKENS = 32000;
+
+/** Lower bound so tiny context windows can still take a small file */
+const MIN_TOTAL_TOKENS = 1000;
+
+/** Largest share of the total budget a single file may take */
+const MAX_FILE_TOKENS = 8000;
+
+/** Most UTF-8 bytes one character of a JS string can take */
+const MAX_BYTES_PER_CHAR = 3;
+
+/** Bytes inspected when deciding whether a file is binary */
+const BINARY_SNIFF_BYTES = 8000;
+
+/** Glob matches beyond this (in path order) are ignored, so `**` in a big tree doesn't read thousands of files */
+const MAX_GLOB_MATCHES = 500;
+
+/**
+ * Why a file was not attached
+ */
+export type SkipReason =
+  | "missing"
+  | "directory"
+  | "binary"
+  | "unreadable"
+  | "budget";
+
+/**
+ * A file that was attached to the prompt
+ */
+export interface AttachedFile {
+  /** Path relative to the working directory */
+  path: string;
+  /** Estimated tokens used */
+  tokens: number;
+  /** Whether only the beginning of the file was attached */
+  truncated: boolean;
+}
+
+/**
+ * Files collected for a prompt
+ */
+export interface FileContext {
+  /** Labelled file sections to attach to the prompt (empty if no files) */
+  blocks: string[];
+  files: AttachedFile[];
+  skipped: Array<{ path: string; reason: SkipReason }>;
+  /** Globs that matched no files */
+  unmatched: string[];
+}
+
+/**
+ * Commander option parser for repeatable options
+ */
+export function collectValues(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Token budgets for attached files
+ *
+ * @param contextWindow - Model context window in tokens
+ */
+export function fileBudgetTokens(contextWindow: number): {
+  total: number;
+  perFile: number;
+} {
+  const total = Math.min(
+    Math.max(Math.floor(contextWindow * CONTEXT_SHARE), MIN_TOTAL_TOKENS),
+    MAX_TOTAL_TOKENS,
+  );
+  return { total, perFile: Math.min(total, MAX_FILE_TOKENS) };
+}
+
+/**
+ * Expands a glob relative to cwd (hidden files are only matched explicitly)
+ *
+ * Matches are sorted before the cap applies, so the same files are kept
+ * whatever order the file system lists them in.
+ */
+function expandGlob(pattern: string, cwd: string): string[] {
+  const matches: string[] = [];
+  for (const path of new Glob(pattern).scanSync({ cwd, onlyFiles: true })) {
+    if (path.split(/[\\/]/).includes(".git")) continue;
+    matches.push(path);
+  }
+  return matches.sort().slice(0, MAX_GLOB_MATCHES);
+}
+
+/**
+ * Returns the subset of paths that .gitignore excludes
+ *
+ * Asks git when cwd is inside a repository, so nested .gitignore files and
+ * global excludes apply. Outside a repository only ./.gitignore is used.
+ */
+function findIgnored(paths: string[], cwd: string): Set<string> {
+  if (paths.length === 0) return new Set();
+
+  const result = spawnSync("git", ["check-ignore", "--stdin"], {
+    cwd,
+    input: paths.join("\n"),
+    encoding: "utf-8",
+  });
+  // Exit 0: some paths ignored, 1: none ignored, anything else: not a repo
+  if (!result.error && (result.status === 0 || result.status === 1)) {
+    return new Set(result.stdout.split("\n").filter(Boolean));
+  }
+
+  const gitignore = join(cwd, ".gitignore");
+  if (!existsSync(gitignore)) return new Set();
+  const globs = readFileSync(gitignore, "utf-8")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#") && !line.startsWith("!"))
+    .flatMap((line) => {
+      const pattern = line.replace(/\/$/, "");
+      // Patterns without an inner slash match at any depth
+      const base = pattern.startsWith("/")
+        ? pattern.slice(1)
+        : pattern.includes("/")
+          ? pattern
+          : `**/${pattern}`;
+      return [new Glob(base), new Glob(`${base}/**`)];
+    });
+  return new Set(
+    paths.filter((path) => globs.some((glob) => glob.match(path))),
+  );
+}
+
+/**
+ * Checks for NUL bytes, which text files don't contain
+ */
+function isBinary(buffer: Buffer): boolean {
+  return buffer.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+}
+
+/**
+ * Reads at most maxBytes from the start of a file
+ */
+function readHead(path: string, maxBytes: number): Buffer {
+  const fd = openSync(path, "r");
+  try {
+    const buffer = Buffer.alloc(maxBytes);
+    const bytesRead = readSync(fd, buffer, 0, maxBytes, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Decodes the start of a file and cuts it to at most maxChars characters
+ *
+ * An incomplete character at the end of a partial read is dropped rather
+ * than decoded as a replacement character, and a cut never splits a
+ * surrogate pair.
+ *
+ * @param partial - Whether the buffer ends before the end of the file
+ */
+function decodeHead(head: Buffer, maxChars: number, partial: boolean): string {
+  const text = new TextDecoder("utf-8").decode(head, { stream: partial });
+  if (text.length <= maxChars) {
+    return text;
+  }
+  const end = /[\uD800-\uDBFF]/.test(text[maxChars - 1] ?? "")
+    ? maxChars - 1
+    : maxChars;
+  return text.slice(0, end);
+}
+
+/**
+ * Formats one file as a labelled section
+ */
+function formatFileSection(
+  path: string,
+  text: string,
+  shownBytes: number,
+  totalBytes: number,
+): string {
+  const note =
+    shownBytes < totalBytes
+      ? ` (truncated: only the first ${shownBytes} of ${totalBytes} bytes are shown)`
+      : "";
+  return `----- BEGIN FILE ${path} -----\n${text.replace(/\n$/, "")}\n----- END FILE ${path}${note} -----`;
+}
+
+/**
+ * Reads files and glob matches into labelled prompt sections
+ *
+ * Explicit files come first, in the order given, followed by glob matches
+ * sorted by path. .gitignore only filters glob matches; a file named with
+ * `--file` is always read. Once the total budget is spent the remaining
+ * files are skipped.
+ *
+ * @param files - Paths from `--file`
+ * @param globs - Patterns from `--context`
+ * @param contextWindow - Model context window in tokens
+ * @param cwd - Directory paths and globs are relative to
+ */
+export function collectFileContext(
+  files: string[],
+  globs: string[],
+  contextWindow: number,
+  cwd: string = process.cwd(),
+): FileContext {
+  const context: FileContext = {
+    blocks: [],
+    files: [],
+    skipped: [],
+    unmatched: [],
+  };
+
+  const candidates = files.map((file) => relative(cwd, resolve(cwd, file)));
+  for (const pattern of globs) {
+    const matches = expandGlob(pattern, cwd);
+    const ignored = findIgnored(matches, cwd);
+    const kept = matches.filter((path) => !ignored.has(path));
+    if (kept.length === 0) {
+      context.unmatched.push(pattern);
+    }
+    candidates.push(...kept);
+  }
+
+  const budget = fileBudgetTokens(contextWindow);
+  let remainingChars = budget.total * CHARS_PER_TOKEN;
+  const sections: string[] = [];
+
+  for (const path of new Set(candidates)) {
+    const absolute = resolve(cwd, path);
+    if (!existsSync(absolute)) {
+      context.skipped.push({ path, reason: "missing" });
+      continue;
+    }
+
+    try {
+      const stat = statSync(absolute);
+      if (stat.isDirectory()) {
+        context.skipped.push({ path, reason: "directory" });
+        continue;
+      }
+
+      const maxChars = Math.min(
+        budget.perFile * CHARS_PER_TOKEN,
+        remainingChars,
+      );
+      const head = readHead(
+        absolute,
+        Math.max(maxChars * MAX_BYTES_PER_CHAR, BINARY_SNIFF_BYTES),
+      );
+      if (isBinary(head)) {
+        context.skipped.push({ path, reason: "binary" });
+        continue;
+      }
+      if (maxChars <= 0) {
+        context.skipped.push({ path, reason: "budget" });
+        continue;
+      }
+
+      // Cut on a line boundary when possible so the excerpt stays readable
+      let text = decodeHead(head, maxChars, head.length < stat.size);
+      const truncated = stat.size > Buffer.byteLength(text);
+      if (truncated && text.lastIndexOf("\n") > 0) {
+        text = text.slice(0, text.lastIndexOf("\n") + 1);
+      }
+
+      const shownBytes = Buffer.byteLength(text);
+      sections.push(formatFileSection(path, text, shownBytes, stat.size));
+      remainingChars -= text.length;
+      context.files.push({
+        path,
+        tokens: Math.ceil(text.length / CHARS_PER_TOKEN),
+        truncated,
+      });
+    } catch {
+      context.skipped.push({ path, reason: "unreadable" });
+    }
+  }
+
+  if (sections.length > 0) {
+    context.blocks.push(
+      `The user attached the following files:\n\n${sections.join("\n\n")}`,
+    );
+  }
+  return context;
+}
+
+/**
+ * One-line summaries of what was attached and skipped, for display
+ */
+export function describeFileContext(context: FileContext): {
+  attached: string[];
+  warnings: string[];
+} {
+  const reasons: Record<SkipReason, string> = {
+    missing: "not found",
+    directory: "is a directory",
+    binary: "binary file",
+    unreadable: "could not be read",
+    budget: "over the total size budget",
+  };
+
+  return {
+    attached: context.files.map(
+      (file) =>
+        `${file.path} (~${file.tokens} tokens${file.truncated ? ", truncated" : ""})`,
+    ),
+    warnings: [
+      ...context.skipped.map(
+        (file) => `Skipped ${file.path}: ${reasons[file.reason]}`,
+      ),
+      ...context.unmatched.map(
+        (pattern) => `No files matched "${pattern}" (or all are gitignored)`,
+      ),
+    ],
+  };
+}
@@ -0,0 +1,193 @@
+/**
+ * JSON Schema Conversion
+ *
+ * Converts the commonly used subset of JSON Schema into zod schemas, so a
+ * `--schema <file.json>` can validate structured answers. Supported:
+ * type (including type arrays), properties/required/additionalProperties,
+ * items/minItems/maxItems, enum, const, anyOf/oneOf/allOf, string length,
+ * pattern and format (email, uri, date-time), numeric bounds, nullable and
+ * descriptions. Unknown keywords are ignored.
+ */
+
+import { readFileSync } from "fs";
+import { z } from "zod";
+
+/**
+ * A JSON Schema document (only the keywords used here are typed)
+ */
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  nullable?: boolean;
+}
+
+/**
+ * Converts a schema for a single type name
+ */
+function convertType(type: string, schema: JsonSchema): z.ZodType {
+  switch (type) {
+    case "string": {
+      let result =
+        schema.format === "email"
+          ? z.email()
+          : schema.format === "uri" || schema.format === "url"
+            ? z.url()
+            : schema.format === "date-time"
+              ? z.iso.datetime({ offset: true })
+              : z.string();
+      if (schema.minLength !== undefined) result = result.min(schema.minLength);
+      if (schema.maxLength !== undefined) result = result.max(schema.maxLength);
+      if (schema.pattern) result = result.regex(new RegExp(schema.pattern));
+      return result;
+    }
+
+    case "number":
+    case "integer": {
+      let result = type === "integer" ? z.number().int() : z.number();
+      if (schema.minimum !== undefined) result = result.gte(schema.minimum);
+      if (schema.maximum !== undefined) result = result.lte(schema.maximum);
+      if (schema.exclusiveMinimum !== undefined) {
+        result = result.gt(schema.exclusiveMinimum);
+      }
+      if (schema.exclusiveMaximum !== undefined) {
+        result = result.lt(schema.exclusiveMaximum);
+      }
+      return result;
+    }
+
+    case "boolean":
+      return z.boolean();
+
+    case "null":
+      return z.null();
+
+    case "array": {
+      let result = z.array(schema.items ? jsonSchemaToZod(schema.items) : z.unknown());
+      if (schema.minItems !== undefined) result = result.min(schema.minItems);
+      if (schema.maxItems !== undefined) result = result.max(schema.maxItems);
+      return result;
+    }
+
+    case "object": {
+      const required = new Set(schema.required || []);
+      const shape: Record<string, z.ZodType> = {};
+      for (const [key, property] of Object.entries(schema.properties || {})) {
+        const converted = jsonSchemaToZod(property);
+        shape[key] = required.has(key) ? converted : converted.optional();
+      }
+
+      if (schema.additionalProperties === false) {
+        return z.strictObject(shape);
+      }
+      if (typeof schema.additionalProperties === "object") {
+        return z
+          .object(shape)
+          .catchall(jsonSchemaToZod(schema.additionalProperties));
+      }
+      return z.looseObject(shape);
+    }
+
+    default:
+      throw new Error(`Unsupported JSON Schema type "${type}"`);
+  }
+}
+
+/**
+ * Builds a union from two or more schemas (zod needs at least two members)
+ */
+function union(schemas: z.ZodType[]): z.ZodType {
+  if (schemas.length === 1) return schemas[0]!;
+  return z.union(schemas as [z.ZodType, z.ZodType, ...z.ZodType[]]);
+}
+
+/**
+ * Converts a JSON Schema to a zod schema
+ *
+ * @throws Error for types the converter doesn't know
+ */
+export function jsonSchemaToZod(schema: JsonSchema): z.ZodType {
+  let result: z.ZodType;
+
+  if (schema.const !== undefined) {
+    result = z.literal(schema.const as z.core.util.Literal);
+  } else if (schema.enum) {
+    result = union(
+      schema.enum.map((value) => z.literal(value as z.core.util.Literal)),
+    );
+  } else if (schema.anyOf || schema.oneOf) {
+    result = union((schema.anyOf || schema.oneOf)!.map(jsonSchemaToZod));
+  } else if (schema.allOf && schema.allOf.length > 0) {
+    result = schema.allOf
+      .map(jsonSchemaToZod)
+      .reduce((left, right) => z.intersection(left, right));
+  } else if (Array.isArray(schema.type)) {
+    result = union(schema.type.map((type) => convertType(type, schema)));
+  } else if (schema.type) {
+    result = convertType(schema.type, schema);
+  } else if (schema.properties) {
+    result = convertType("object", schema);
+  } else {
+    result = z.unknown();
+  }
+
+  if (schema.nullable) {
+    result = result.nullable();
+  }
+  if (schema.description) {
+    result = result.describe(schema.description);
+  }
+  return result;
+}
+
+/**
+ * Reads a JSON Schema file
+ *
+ * @returns The parsed schema and its zod equivalent
+ * @throws Error if the file can't be read, isn't JSON or can't be converted
+ */
+export function loadJsonSchema(path: string): {
+  schema: JsonSchema;
+  zodSchema: z.ZodType;
+} {
+  let schema: JsonSchema;
+  try {
+    schema = JSON.parse(readFileSync(path, "utf-8")) as JsonSchema;
+  } catch (error) {
+    throw new Error(
+      `Could not read schema ${path}: ${error instanceof Error ? error.message : "unknown error"}`,
+    );
+  }
+  return { schema, zodSchema: jsonSchemaToZod(schema) };
+}
+
+/**
+ * Readable description of a validation failure
+ */
+export function formatValidationError(error: z.ZodError): string {
+  return error.issues
+    .map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message,
+    )
+    .join("; ");
+}
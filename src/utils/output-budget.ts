@@ -0,0 +1,173 @@
+/**
+ * Command Output Budgeting
+ *
+ * Shrinks command output before it is inlined into a prompt. Repeated lines
+ * are collapsed, and when the output is still over budget the excerpt keeps
+ * the head, the tail and the lines that look like errors, with markers where
+ * lines were elided. Budgets are derived from the model's context window.
+ */
+
+/**
+ * Output reduced to fit a budget
+ */
+export interface BudgetedOutput {
+  /** Excerpt to put in the prompt */
+  text: string;
+  /** Number of lines in the original output */
+  totalLines: number;
+  /** Number of original lines represented in the excerpt */
+  keptLines: number;
+  /** Whether anything beyond duplicate collapsing was removed */
+  truncated: boolean;
+}
+
+/** Rough characters-per-token ratio used for budgeting */
+const CHARS_PER_TOKEN = 4;
+
+/** Share of the context window that command output may take */
+const CONTEXT_SHARE = 0.25;
+
+/** Upper bound on output tokens regardless of context window, to bound cost */
+const MAX_OUTPUT_TOKENS = 8000;
+
+/** Lower bound so tiny context windows still get a useful excerpt */
+const MIN_OUTPUT_TOKENS = 500;
+
+/** Individual lines longer than this are cut */
+const MAX_LINE_LENGTH = 500;
+
+/** Lines that usually explain why a command failed */
+const ERROR_PATTERN =
+  /\b(error|errors|failed|failure|fatal|panic|exception|traceback|cannot|can't|could not|unable to|not found|no such|denied|refused|undefined|segmentation fault|killed|timed? ?out)\b|ERR!|^\s*(E\d{3,}|error\[)/i;
+
+/** ANSI escape sequences (colors, cursor movement) */
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[A-Za-z]/g;
+
+/**
+ * Character budget for a single output stream sent to a model
+ *
+ * @param contextWindow - Model context window in tokens
+ * @returns Maximum characters for the excerpt
+ */
+export function outputBudgetChars(contextWindow: number): number {
+  const tokens = Math.min(
+    Math.max(Math.floor(contextWindow * CONTEXT_SHARE), MIN_OUTPUT_TOKENS),
+    MAX_OUTPUT_TOKENS,
+  );
+  return tokens * CHARS_PER_TOKEN;
+}
+
+/**
+ * Splits output into display lines, dropping colors and progress redraws
+ */
+function normalizeLines(output: string): string[] {
+  return output
+    .replace(ANSI_PATTERN, "")
+    .split(/\r?\n/)
+    .map((line) => {
+      // Progress bars redraw with \r; only the final state matters
+      const redrawn = line.split("\r").pop() || "";
+      return redrawn.length > MAX_LINE_LENGTH
+        ? `${redrawn.slice(0, MAX_LINE_LENGTH)}… [${redrawn.length - MAX_LINE_LENGTH} chars cut]`
+        : redrawn;
+    });
+}
+
+/**
+ * Collapses runs of identical lines into one annotated line
+ */
+function collapseRepeats(lines: string[]): { line: string; count: number }[] {
+  const collapsed: { line: string; count: number }[] = [];
+  for (const line of lines) {
+    const last = collapsed[collapsed.length - 1];
+    if (last && last.line === line) {
+      last.count++;
+    } else {
+      collapsed.push({ line, count: 1 });
+    }
+  }
+  return collapsed;
+}
+
+/**
+ * Reduces command output to fit within a character budget
+ *
+ * @param output - Raw stdout or stderr
+ * @param maxChars - Character budget (see outputBudgetChars)
+ * @returns The excerpt and how much of the original it represents
+ */
+export function budgetOutput(output: string, maxChars: number): BudgetedOutput {
+  const lines = normalizeLines(output.replace(/\n+$/, ""));
+  const totalLines = output ? lines.length : 0;
+  const collapsed = collapseRepeats(lines);
+  const entries = collapsed.map(({ line, count }) =>
+    count > 1 ? `${line} [repeated ${count} times]` : line,
+  );
+  const weights = collapsed.map(({ count }) => count);
+
+  const full = entries.join("\n");
+  if (full.length <= maxChars) {
+    return { text: full, totalLines, keptLines: totalLines, truncated: false };
+  }
+
+  // Head gets 20%, tail 40% and error lines from the middle the rest
+  const keep = new Set<number>();
+  const take = (index: number, budget: { left: number }) => {
+    if (keep.has(index)) return true;
+    const cost = (entries[index]?.length || 0) + 1;
+    if (cost > budget.left) return false;
+    budget.left -= cost;
+    keep.add(index);
+    return true;
+  };
+
+  const headChars = Math.floor(maxChars * 0.2);
+  const tailChars = Math.floor(maxChars * 0.4);
+
+  const head = { left: headChars };
+  for (let i = 0; i < entries.length && take(i, head); i++);
+
+  const tail = { left: tailChars };
+  for (let i = entries.length - 1; i >= 0 && take(i, tail); i--);
+
+  const errors = { left: maxChars - headChars - tailChars };
+  for (let i = 0; i < entries.length; i++) {
+    if (keep.has(i) || !ERROR_PATTERN.test(entries[i] || "")) continue;
+    if (!take(i, errors)) break;
+    // The line after an error often carries the location (e.g. "--> src/main.rs:4")
+    if (i + 1 < entries.length) take(i + 1, errors);
+  }
+
+  // Whatever the error lines didn't need extends the tail
+  tail.left += errors.left;
+  for (let i = entries.length - 1; i >= 0 && take(i, tail); i--);
+
+  const excerpt: string[] = [];
+  let keptLines = 0;
+  let elided = 0;
+  for (let i = 0; i < entries.length; i++) {
+    if (keep.has(i)) {
+      if (elided > 0) {
+        excerpt.push(`… [${elided} lines elided] …`);
+        elided = 0;
+      }
+      excerpt.push(entries[i] || "");
+      keptLines += weights[i] || 1;
+    } else {
+      elided += weights[i] || 1;
+    }
+  }
+  if (elided > 0) {
+    excerpt.push(`… [${elided} lines elided] …`);
+  }
+
+  return { text: excerpt.join("\n"), totalLines, keptLines, truncated: true };
+}
+
+/**
+ * Describes what an excerpt left out, for inclusion in a prompt
+ */
+export function describeBudget(result: BudgetedOutput): string {
+  if (!result.truncated) return "";
+  return ` (excerpt: ${result.keptLines} of ${result.totalLines} lines kept — head, tail and error lines; ${result.totalLines - result.keptLines} lines elided)`;
+}
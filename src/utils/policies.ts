@@ -0,0 +1,149 @@
+/**
+ * Command Approval Policies
+ *
+ * Evaluates user-configured allow / deny / confirm policies against a
+ * generated command before the confirmation prompt. Policies can be scoped
+ * to a directory so teams can, for example, auto-approve read-only commands
+ * everywhere but forbid `kubectl delete` inside an infrastructure repo.
+ */
+
+import { homedir } from "os";
+import { resolve, sep } from "path";
+import type { CommandPolicy } from "../config/config";
+import { parseShellCommand, type CommandSegment } from "./safety";
+
+/**
+ * Outcome of evaluating policies for a command
+ */
+export interface PolicyDecision {
+  /** "prompt" means no policy applied and the normal confirmation runs */
+  action: "allow" | "deny" | "confirm" | "prompt";
+  /** The policy that decided the outcome (for deny / confirm / allow) */
+  policy?: CommandPolicy;
+  /** Human-readable explanation */
+  reason?: string;
+}
+
+/**
+ * Expands ~ and resolves a policy directory to an absolute path
+ */
+function resolveDirectory(directory: string): string {
+  return resolve(directory.replace(/^~(?=$|\/)/, homedir()));
+}
+
+/**
+ * Checks whether a policy applies in the given working directory
+ */
+function appliesIn(policy: CommandPolicy, cwd: string): boolean {
+  if (!policy.directory) return true;
+  const directory = resolveDirectory(policy.directory);
+  return cwd === directory || cwd.startsWith(directory + sep);
+}
+
+/**
+ * Checks whether a policy matches a simple command
+ *
+ * Plain patterns match as a word prefix ("kubectl get" matches
+ * "kubectl get pods -A"), against both the raw text (so "sudo" matches
+ * elevated commands) and the unwrapped program and arguments.
+ * Patterns written as /regex/ are tested against the raw text.
+ */
+function matchesSegment(policy: CommandPolicy, segment: CommandSegment): boolean {
+  const regex = policy.match.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    try {
+      return new RegExp(regex[1]!, regex[2]).test(segment.text);
+    } catch {
+      return false;
+    }
+  }
+
+  const expected = policy.match.trim().split(/\s+/);
+  const candidates = [
+    segment.text.split(/\s+/),
+    [segment.program, ...segment.args],
+  ];
+  return candidates.some((words) =>
+    expected.every((word, index) => words[index] === word),
+  );
+}
+
+/**
+ * Whether a simple command does more than its words say
+ *
+ * Output redirections (other than to /dev/null or another descriptor) and
+ * command or process substitutions can write files or run other programs,
+ * so an allow policy for the command itself must not cover them.
+ */
+function hasSideEffects(segment: CommandSegment): boolean {
+  const writesFile = segment.redirects.some(
+    (target) => !/^(\d+|-|\/dev\/null)$/.test(target),
+  );
+  return writesFile || /\$\(|`|[<>]\(/.test(segment.text);
+}
+
+/**
+ * Evaluates command policies for a command in a directory
+ *
+ * Precedence is deny > confirm > allow. A command is only allowed without
+ * prompting when every simple command in it is covered by an allow policy
+ * and none of them redirects output or substitutes another command.
+ *
+ * @param command - Shell command to evaluate
+ * @param policies - Configured policies
+ * @param cwd - Directory the command will run in
+ * @returns The decision and the policy responsible for it
+ */
+export function evaluateCommandPolicies(
+  command: string,
+  policies: CommandPolicy[] = [],
+  cwd: string = process.cwd(),
+): PolicyDecision {
+  const active = policies.filter((policy) => appliesIn(policy, cwd));
+  if (active.length === 0) {
+    return { action: "prompt" };
+  }
+
+  const segments = parseShellCommand(command);
+  const find = (action: CommandPolicy["action"]) =>
+    active.find(
+      (policy) =>
+        policy.action === action &&
+        segments.some((segment) => matchesSegment(policy, segment)),
+    );
+
+  const deny = find("deny");
+  if (deny) {
+    return {
+      action: "deny",
+      policy: deny,
+      reason: deny.reason || `denied by policy "${deny.match}"`,
+    };
+  }
+
+  const confirm = find("confirm");
+  if (confirm) {
+    return {
+      action: "confirm",
+      policy: confirm,
+      reason: confirm.reason || `policy "${confirm.match}" requires confirmation`,
+    };
+  }
+
+  const allows = active.filter((policy) => policy.action === "allow");
+  const coveredBy = segments.map((segment) =>
+    hasSideEffects(segment)
+      ? undefined
+      : allows.find((policy) => matchesSegment(policy, segment)),
+  );
+  if (segments.length > 0 && coveredBy.every(Boolean)) {
+    const allow = coveredBy[0]!;
+    return {
+      action: "allow",
+      policy: allow,
+      reason: allow.reason || `allowed by policy "${allow.match}"`,
+    };
+  }
+
+  return { action: "prompt" };
+}
@@ -0,0 +1,230 @@
+/**
+ * Secret Redaction
+ *
+ * Masks credentials before prompts leave the machine. Known key formats
+ * (cloud provider keys, tokens, private keys, passwords in assignments and
+ * URLs) are matched by a pattern library, remaining long random-looking
+ * strings are caught by an entropy check, and users can add their own
+ * regular expressions in config.
+ */
+
+import type { ModelMessage } from "ai";
+import type { RedactionConfig } from "../config/config";
+
+/**
+ * A value that was masked
+ */
+export interface Redaction {
+  /** Pattern that matched (e.g. "aws-access-key", "high-entropy", "custom") */
+  kind: string;
+  /** First characters of the original value, for the verbose view */
+  preview: string;
+  /** Length of the original value */
+  length: number;
+}
+
+/**
+ * Result of redacting a piece of text
+ */
+export interface RedactionResult {
+  text: string;
+  redactions: Redaction[];
+}
+
+/**
+ * A secret pattern; when `secretGroup` is set only that capture is masked
+ */
+interface SecretPattern {
+  kind: string;
+  regex: RegExp;
+  secretGroup?: number;
+}
+
+/** Built-in secret formats, most specific first */
+const SECRET_PATTERNS: SecretPattern[] = [
+  {
+    kind: "private-key",
+    regex:
+      /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  },
+  {
+    kind: "aws-access-key",
+    regex: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA|ANPA|ANVA|AIPA)[A-Z0-9]{16}\b/g,
+  },
+  { kind: "github-token", regex: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g },
+  { kind: "github-token", regex: /\bgithub_pat_[A-Za-z0-9_]{22,}\b/g },
+  { kind: "gitlab-token", regex: /\bglpat-[A-Za-z0-9_-]{20,}\b/g },
+  { kind: "api-key", regex: /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}\b/g },
+  { kind: "slack-token", regex: /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/g },
+  { kind: "google-api-key", regex: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { kind: "stripe-key", regex: /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}\b/g },
+  {
+    kind: "jwt",
+    regex: /\beyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g,
+  },
+  {
+    kind: "bearer-token",
+    regex: /\b(Bearer\s+)([A-Za-z0-9._~+/-]{16,}=*)/gi,
+    secretGroup: 2,
+  },
+  {
+    kind: "url-credentials",
+    regex: /\b([a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:)([^\s@/]+)(?=@)/gi,
+    secretGroup: 2,
+  },
+  {
+    kind: "password",
+    regex:
+      /\b([A-Za-z0-9_.-]*(?:password|passwd|secret|token|api[_-]?key|access[_-]?key|auth[_-]?key|credentials?)[A-Za-z0-9_.-]*["']?\s*[=:]\s*["']?)([^\s"',;]{4,})/gi,
+    secretGroup: 2,
+  },
+];
+
+/** Candidate tokens for entropy detection */
+const ENTROPY_CANDIDATE = /[A-Za-z0-9+/_=-]{24,}/g;
+
+/** Minimum Shannon entropy (bits per character) for a token to look random */
+const ENTROPY_THRESHOLD = 4.0;
+
+/** Placeholder that replaces a secret */
+function placeholder(kind: string): string {
+  return `[REDACTED:${kind}]`;
+}
+
+/**
+ * Shannon entropy of a string in bits per character
+ */
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Checks whether a token looks like a generated secret
+ *
+ * Requires mixed case and digits so identifiers, paths and words don't
+ * match, and skips hex strings (commit hashes, checksums, UUIDs) which are
+ * everywhere in command output and harmless.
+ */
+function looksRandom(token: string): boolean {
+  if (/^[0-9a-f-]+$/i.test(token)) return false;
+  if (!/[a-z]/.test(token) || !/[A-Z]/.test(token) || !/[0-9]/.test(token)) {
+    return false;
+  }
+  return shannonEntropy(token) >= ENTROPY_THRESHOLD;
+}
+
+/**
+ * Compiles user-supplied patterns, ignoring invalid ones
+ */
+function customPatterns(config?: RedactionConfig): SecretPattern[] {
+  const patterns: SecretPattern[] = [];
+  for (const source of config?.patterns || []) {
+    try {
+      patterns.push({ kind: "custom", regex: new RegExp(source, "g") });
+    } catch {
+      // Invalid user regex: skip rather than fail every request
+    }
+  }
+  return patterns;
+}
+
+/**
+ * Masks secrets in a piece of text
+ *
+ * @param text - Text that is about to be sent to a model
+ * @param config - User redaction settings
+ * @returns The masked text and what was masked
+ */
+export function redactSecrets(
+  text: string,
+  config?: RedactionConfig,
+): RedactionResult {
+  if (config?.enabled === false || !text) {
+    return { text, redactions: [] };
+  }
+
+  const redactions: Redaction[] = [];
+  const record = (kind: string, secret: string) => {
+    redactions.push({ kind, preview: secret.slice(0, 4), length: secret.length });
+    return placeholder(kind);
+  };
+
+  let result = text;
+  for (const { kind, regex, secretGroup } of [
+    ...SECRET_PATTERNS,
+    ...customPatterns(config),
+  ]) {
+    result = result.replace(regex, (match, ...groups) => {
+      if (match.includes("[REDACTED:")) return match;
+      if (!secretGroup) return record(kind, match);
+
+      const secret = groups[secretGroup - 1];
+      if (typeof secret !== "string" || secret.startsWith("[REDACTED")) {
+        return match;
+      }
+      const index = match.lastIndexOf(secret);
+      return match.slice(0, index) + record(kind, secret);
+    });
+  }
+
+  if (config?.entropy !== false) {
+    result = result.replace(ENTROPY_CANDIDATE, (token) =>
+      looksRandom(token) ? record("high-entropy", token) : token,
+    );
+  }
+
+  return { text: result, redactions };
+}
+
+/**
+ * Masks secrets in every text part of a message list
+ *
+ * @param messages - Messages about to be sent to a model
+ * @param config - User redaction settings
+ * @returns Masked copies of the messages and what was masked
+ */
+export function redactMessages(
+  messages: ModelMessage[],
+  config?: RedactionConfig,
+): { messages: ModelMessage[]; redactions: Redaction[] } {
+  const redactions: Redaction[] = [];
+  const redact = (text: string) => {
+    const result = redactSecrets(text, config);
+    redactions.push(...result.redactions);
+    return result.text;
+  };
+
+  const masked = messages.map((message): ModelMessage => {
+    if (typeof message.content === "string") {
+      return { ...message, content: redact(message.content) } as ModelMessage;
+    }
+    if (message.role === "user" || message.role === "assistant") {
+      const content = message.content.map((part) =>
+        part.type === "text" ? { ...part, text: redact(part.text) } : part,
+      );
+      return { ...message, content } as ModelMessage;
+    }
+    return message;
+  });
+
+  return { messages: masked, redactions };
+}
+
+/**
+ * Formats redactions for the --show-redactions view
+ */
+export function formatRedactions(redactions: Redaction[]): string[] {
+  return redactions.map(
+    (r) => `${r.kind}: ${r.preview}… (${r.length} chars)`,
+  );
+}
@@ -0,0 +1,638 @@
+/**
+ * Command Safety Rules
+ *
+ * Deterministic safety checks for generated shell commands. Commands are
+ * split into simple commands (across pipes, `&&`, `;`, subshells and
+ * `sh -c` / `eval` payloads), unwrapped from `sudo`/`env`/`nohup`-style
+ * prefixes, resolved against the directory an earlier `cd` moved to, and
+ * matched against built-in and user-defined rules. The verdict
+ * is combined with the model's own `isDangerous` flag by the command executor.
+ */
+
+import { posix } from "path";
+import type { SafetyConfig } from "../config/config";
+
+/**
+ * A single simple command extracted from a shell command line
+ */
+export interface CommandSegment {
+  /** Raw text of the simple command */
+  text: string;
+  /** Program being run after stripping wrappers such as sudo or env */
+  program: string;
+  /** Arguments following the program (quotes removed) */
+  args: string[];
+  /** Targets of output redirections (`>`, `>>`, `&>`, ...) */
+  redirects: string[];
+  /** Whether the command runs elevated (sudo / doas) */
+  elevated: boolean;
+  /** Segment whose output is piped into this one */
+  pipedFrom?: CommandSegment;
+  /** Directory an earlier `cd` in the command line moved to, when known */
+  directory?: string;
+}
+
+/**
+ * A rule match explaining why a command was blocked
+ */
+export interface SafetyMatch {
+  /** Rule identifier (built-in id or "custom") */
+  rule: string;
+  /** Human-readable reason */
+  reason: string;
+  /** The simple command that triggered the rule */
+  segment: string;
+}
+
+/**
+ * Result of evaluating a command against the safety rules
+ */
+export interface SafetyVerdict {
+  /** Whether any rule blocked the command */
+  blocked: boolean;
+  /** All matching rules */
+  matches: SafetyMatch[];
+}
+
+/**
+ * A built-in rule: returns a reason when the segment is unsafe
+ */
+interface BuiltinRule {
+  id: string;
+  check: (segment: CommandSegment) => string | undefined;
+}
+
+/** Paths whose recursive removal or permission change wrecks a system */
+const CRITICAL_PATHS = new Set([
+  "/",
+  "~",
+  "/bin",
+  "/boot",
+  "/dev",
+  "/etc",
+  "/home",
+  "/lib",
+  "/lib64",
+  "/opt",
+  "/proc",
+  "/root",
+  "/sbin",
+  "/sys",
+  "/usr",
+  "/var",
+  "/Applications",
+  "/Library",
+  "/System",
+  "/Users",
+  "/private",
+]);
+
+/** Programs that execute a script read from stdin or an argument */
+const SHELLS = new Set([
+  "sh",
+  "bash",
+  "zsh",
+  "dash",
+  "ksh",
+  "fish",
+  "source",
+  ".",
+  "python",
+  "python3",
+  "perl",
+  "ruby",
+  "node",
+]);
+
+/** Programs that fetch remote content */
+const DOWNLOADERS = new Set(["curl", "wget", "fetch"]);
+
+/** Device files that are safe to write to */
+const HARMLESS_DEVICES =
+  /^\/dev\/(null|zero|stdout|stderr|tty|random|urandom|fd\/\d+)$/;
+
+/** Block devices (disks and partitions) */
+const BLOCK_DEVICE =
+  /^\/dev\/(sd|hd|vd|xvd|nvme|mmcblk|disk|rdisk|md|dm-|mapper\/|loop)/;
+
+/** Wrappers that run another program, with options that take a value */
+const WRAPPERS: Record<string, Set<string>> = {
+  sudo: new Set(["-u", "-g", "-C", "-h", "-p", "-U", "-r", "-t", "-D"]),
+  doas: new Set(["-u", "-C"]),
+  env: new Set(["-u", "-C", "-S"]),
+  nohup: new Set(),
+  time: new Set(),
+  nice: new Set(["-n"]),
+  ionice: new Set(["-c", "-n", "-p"]),
+  exec: new Set(),
+  command: new Set(),
+  builtin: new Set(),
+  stdbuf: new Set(["-i", "-o", "-e"]),
+  timeout: new Set(["-s", "-k"]),
+  xargs: new Set(["-I", "-n", "-P", "-d", "-L", "-s", "-E"]),
+};
+
+/**
+ * Normalizes a path argument for comparison with CRITICAL_PATHS
+ */
+function normalizeTarget(target: string): string {
+  let normalized = target
+    .replace(/^(\$HOME|\$\{HOME\})/, "~")
+    .replace(/\/(\*|\.)$/, "/");
+  while (normalized.length > 1 && normalized.endsWith("/")) {
+    normalized = normalized.slice(0, -1);
+  }
+  return normalized || "/";
+}
+
+/**
+ * Resolves a path argument against the directory the command runs in
+ *
+ * Relative targets such as `.` or `*` stand for that directory, so
+ * `cd / && rm -rf .` is checked like `rm -rf /`.
+ *
+ * @param directory - Directory from an earlier `cd`, if known
+ */
+function resolveTarget(target: string, directory?: string): string {
+  const normalized = normalizeTarget(target);
+  if (!directory || /^[/~]/.test(normalized)) {
+    return normalized;
+  }
+  const rest = normalized.replace(/^\.(\/|$)/, "").replace(/^\*$/, "");
+  return normalizeTarget(rest ? posix.join(directory, rest) : directory);
+}
+
+/**
+ * Returns the first target that is a critical path, as shown in reasons
+ *
+ * @param directory - Directory relative targets are resolved against
+ */
+function findCriticalTarget(
+  targets: string[],
+  directory?: string,
+): string | undefined {
+  for (const target of targets) {
+    const resolved = resolveTarget(target, directory);
+    if (CRITICAL_PATHS.has(resolved)) {
+      return resolved === normalizeTarget(target)
+        ? target
+        : `${resolved} (${target} after cd ${directory})`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Splits arguments into flag characters / long flags and positional targets
+ */
+function parseFlags(args: string[]): {
+  shortFlags: string;
+  longFlags: string[];
+  targets: string[];
+} {
+  let shortFlags = "";
+  const longFlags: string[] = [];
+  const targets: string[] = [];
+  let endOfOptions = false;
+
+  for (const arg of args) {
+    if (!endOfOptions && arg === "--") {
+      endOfOptions = true;
+    } else if (!endOfOptions && arg.startsWith("--")) {
+      longFlags.push(arg);
+    } else if (!endOfOptions && arg.startsWith("-") && arg.length > 1) {
+      shortFlags += arg.slice(1);
+    } else {
+      targets.push(arg);
+    }
+  }
+
+  return { shortFlags, longFlags, targets };
+}
+
+/**
+ * Built-in rules, always active unless disabled in config
+ */
+const BUILTIN_RULES: BuiltinRule[] = [
+  {
+    id: "rm-critical-path",
+    check: ({ program, args, directory }) => {
+      if (program !== "rm") return;
+      const { shortFlags, longFlags, targets } = parseFlags(args);
+      if (longFlags.includes("--no-preserve-root")) {
+        return "rm with --no-preserve-root";
+      }
+      const recursive =
+        /[rR]/.test(shortFlags) || longFlags.includes("--recursive");
+      const critical = findCriticalTarget(targets, directory);
+      if (recursive && critical) {
+        return `recursive rm of critical path ${critical}`;
+      }
+    },
+  },
+  {
+    id: "mkfs",
+    check: ({ program }) =>
+      /^(mkfs(\..+)?|mke2fs|mkswap|wipefs)$/.test(program)
+        ? `${program} formats or wipes a filesystem`
+        : undefined,
+  },
+  {
+    id: "dd-device",
+    check: ({ program, args }) => {
+      if (program !== "dd") return;
+      const output = args.find((a) => a.startsWith("of=/dev/"));
+      if (output && !HARMLESS_DEVICES.test(output.slice(3))) {
+        return `dd writing directly to device ${output.slice(3)}`;
+      }
+    },
+  },
+  {
+    id: "device-redirect",
+    check: ({ program, args, redirects }) => {
+      const targets = program === "tee" ? [...redirects, ...args] : redirects;
+      const device = targets.find((r) => BLOCK_DEVICE.test(r));
+      return device ? `output written to block device ${device}` : undefined;
+    },
+  },
+  {
+    id: "recursive-permissions",
+    check: ({ program, args, directory }) => {
+      if (!["chmod", "chown", "chgrp"].includes(program)) return;
+      const { shortFlags, longFlags, targets } = parseFlags(args);
+      const recursive =
+        shortFlags.includes("R") || longFlags.includes("--recursive");
+      const critical = findCriticalTarget(targets, directory);
+      if (recursive && critical) {
+        return `recursive ${program} on critical path ${critical}`;
+      }
+    },
+  },
+  {
+    id: "find-delete-critical",
+    check: ({ program, args, directory }) => {
+      if (program !== "find") return;
+      // Starting points follow the -H/-L/-P options and precede the
+      // expression; without any, find starts in the current directory
+      let start = 0;
+      while (/^-[HLP]$/.test(args[start] ?? "")) start++;
+      const end = args.findIndex((a, i) => i >= start && /^[-(!]/.test(a));
+      const paths = args.slice(start, end === -1 ? undefined : end);
+      const critical = findCriticalTarget(
+        paths.length > 0 ? paths : ["."],
+        directory,
+      );
+      if (!critical) return;
+      if (args.includes("-delete")) {
+        return `find -delete under critical path ${critical}`;
+      }
+      const runsRm = args.some(
+        (a, i) =>
+          /^-(exec|execdir|ok|okdir)$/.test(a) &&
+          /(^|\/)rm$/.test(args[i + 1] ?? ""),
+      );
+      if (runsRm) {
+        return `find -exec rm under critical path ${critical}`;
+      }
+    },
+  },
+  {
+    id: "pipe-to-shell",
+    check: ({ program, args, pipedFrom }) => {
+      if (!SHELLS.has(program)) return;
+      // The download may pass through other commands (tee, cat, ...) first
+      let source = pipedFrom;
+      while (source && !DOWNLOADERS.has(source.program)) {
+        source = source.pipedFrom;
+      }
+      if (source) {
+        return `remote script from ${source.program} piped into ${program}`;
+      }
+      const substituted = args.find((a) =>
+        /(\$\(|<\(|`)\s*(sudo\s+)?(curl|wget|fetch)\b/.test(a),
+      );
+      if (substituted) {
+        return `remote script from command substitution executed by ${program}`;
+      }
+    },
+  },
+];
+
+/** Classic `:(){ :|:& };:` fork bomb, with any function name */
+const FORK_BOMB =
+  /([\w:.]+)\s*\(\)\s*\{\s*\1\s*\|\s*\1\s*&\s*;?\s*\}\s*;?\s*\1/;
+
+/**
+ * Splits a command line into raw simple commands
+ *
+ * Handles quoting, pipes, `&&`/`||`/`;`/`&`, newlines, grouping with
+ * parentheses/braces, and extracts `$(...)`, `<(...)` and backtick
+ * substitutions as additional commands.
+ *
+ * @returns Simple commands as word lists, each flagged if piped from the previous
+ */
+function splitCommandLine(
+  command: string,
+): Array<{ text: string; words: string[]; piped: boolean }> {
+  const results: Array<{ text: string; words: string[]; piped: boolean }> = [];
+  const nested: string[] = [];
+
+  let words: string[] = [];
+  let word = "";
+  let inWord = false;
+  let start = 0;
+  let piped = false;
+  let quote: "'" | '"' | null = null;
+
+  const endWord = () => {
+    if (inWord) words.push(word);
+    word = "";
+    inWord = false;
+  };
+  const endCommand = (end: number, nextPiped: boolean) => {
+    endWord();
+    if (words.length > 0) {
+      results.push({ text: command.slice(start, end).trim(), words, piped });
+    }
+    words = [];
+    piped = nextPiped;
+  };
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i]!;
+
+    if (quote === "'") {
+      if (char === "'") quote = null;
+      else word += char;
+      continue;
+    }
+
+    if (char === "\\" && i + 1 < command.length) {
+      word += command[++i];
+      inWord = true;
+      continue;
+    }
+
+    // Command and process substitution: keep literal text, parse inner command too
+    if (
+      (char === "$" || char === "<" || char === ">") &&
+      command[i + 1] === "("
+    ) {
+      let depth = 1;
+      let j = i + 2;
+      while (j < command.length && depth > 0) {
+        if (command[j] === "(") depth++;
+        else if (command[j] === ")") depth--;
+        j++;
+      }
+      nested.push(command.slice(i + 2, j - 1));
+      word += command.slice(i, j);
+      inWord = true;
+      i = j - 1;
+      continue;
+    }
+    if (char === "`") {
+      const end = command.indexOf("`", i + 1);
+      const j = end === -1 ? command.length : end;
+      nested.push(command.slice(i + 1, j));
+      word += command.slice(i, j + 1);
+      inWord = true;
+      i = j;
+      continue;
+    }
+
+    if (quote === '"') {
+      if (char === '"') quote = null;
+      else word += char;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      quote = char;
+      inWord = true;
+      continue;
+    }
+
+    // Command separators
+    if (char === "|" && command[i + 1] === "|") {
+      endCommand(i, false);
+      start = i + 2;
+      i++;
+    } else if (char === "|") {
+      const skip = command[i + 1] === "&" ? 1 : 0;
+      endCommand(i, true);
+      start = i + 1 + skip;
+      i += skip;
+    } else if (char === "&" && command[i + 1] === "&") {
+      endCommand(i, false);
+      start = i + 2;
+      i++;
+    } else if (char === "&" && command[i + 1] !== ">") {
+      endCommand(i, false);
+      start = i + 1;
+    } else if (char === ";" || char === "\n") {
+      endCommand(i, false);
+      start = i + 1;
+    } else if (char === ")" || (char === "(" && !inWord)) {
+      // Subshell grouping: commands inside are parsed like any other
+      endCommand(i, false);
+      start = i + 1;
+    } else if ((char === "{" || char === "}") && !inWord) {
+      const next = command[i + 1];
+      if (next === undefined || /\s|;/.test(next)) {
+        endCommand(i, false);
+        start = i + 1;
+      } else {
+        word += char;
+        inWord = true;
+      }
+    } else if (/\s/.test(char)) {
+      endWord();
+    } else if (char === ">" || char === "<") {
+      // Redirection operators become standalone words (">", ">>", "2>", "&>")
+      const fd = inWord && /^\d+$|^&$/.test(word) ? word : "";
+      if (fd) {
+        word = "";
+        inWord = false;
+      } else {
+        endWord();
+      }
+      let op = fd + char;
+      while (
+        command[i + 1] === ">" ||
+        command[i + 1] === "|" ||
+        command[i + 1] === "&"
+      ) {
+        op += command[++i];
+      }
+      words.push(op);
+    } else {
+      word += char;
+      inWord = true;
+    }
+  }
+  endCommand(command.length, false);
+
+  for (const inner of nested) {
+    results.push(...splitCommandLine(inner));
+  }
+
+  return results;
+}
+
+/**
+ * Parses a shell command into simple commands with wrappers resolved
+ *
+ * `sh -c "..."`, `bash -c '...'` and `eval ...` payloads are parsed
+ * recursively and appended to the result.
+ *
+ * @param command - Full shell command line
+ * @returns Simple commands in order of appearance
+ */
+export function parseShellCommand(command: string): CommandSegment[] {
+  const segments: CommandSegment[] = [];
+  let previous: CommandSegment | undefined;
+  let directory: string | undefined;
+
+  for (const raw of splitCommandLine(command)) {
+    const redirects: string[] = [];
+    const words: string[] = [];
+
+    for (let i = 0; i < raw.words.length; i++) {
+      const current = raw.words[i]!;
+      if (/^(\d*|&)(>|>>|>\||>&)$/.test(current)) {
+        const target = raw.words[++i];
+        if (target !== undefined) redirects.push(target);
+      } else if (/^\d*<$/.test(current)) {
+        i++; // input redirection target
+      } else {
+        words.push(current);
+      }
+    }
+
+    // Strip variable assignments and wrapper programs
+    let index = 0;
+    let elevated = false;
+    while (index < words.length) {
+      const current = words[index]!;
+      if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(current)) {
+        index++;
+        continue;
+      }
+      const wrapperOptions = WRAPPERS[current];
+      if (!wrapperOptions) break;
+
+      if (current === "sudo" || current === "doas") elevated = true;
+      index++;
+      while (index < words.length) {
+        const option = words[index]!;
+        if (option === "--") {
+          index++;
+          break;
+        }
+        if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(option)) {
+          index++;
+        } else if (option.startsWith("-")) {
+          index += wrapperOptions.has(option) ? 2 : 1;
+        } else if (current === "timeout" && /^\d/.test(option)) {
+          index++; // duration
+        } else {
+          break;
+        }
+      }
+    }
+
+    const program = (words[index] || "").replace(/^.*\//, "");
+    const segment: CommandSegment = {
+      text: raw.text,
+      program,
+      args: words.slice(index + 1),
+      redirects,
+      elevated,
+      pipedFrom: raw.piped ? previous : undefined,
+      directory,
+    };
+    segments.push(segment);
+    previous = segment;
+
+    // Later commands run where cd went; a target that can't be known
+    // (cd -, a relative path from an unknown directory) is forgotten
+    if (program === "cd" || program === "pushd") {
+      const target =
+        segment.args.find((a) => a === "-" || !a.startsWith("-")) ?? "~";
+      directory =
+        /^[/~]|^\$(HOME|\{HOME\})/.test(target)
+          ? normalizeTarget(target)
+          : directory && target !== "-"
+            ? normalizeTarget(posix.join(directory, target))
+            : undefined;
+    }
+
+    // Inline scripts run by a shell or eval
+    if (SHELLS.has(program)) {
+      const flagIndex = segment.args.findIndex((a) => /^-\w*c$/.test(a));
+      const script = flagIndex >= 0 ? segment.args[flagIndex + 1] : undefined;
+      if (script) segments.push(...parseShellCommand(script));
+    } else if (program === "eval" && segment.args.length > 0) {
+      segments.push(...parseShellCommand(segment.args.join(" ")));
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Evaluates a command against built-in and user-defined safety rules
+ *
+ * @param command - Shell command to classify
+ * @param config - Optional user rules and disabled built-in rule ids
+ * @returns Verdict with every matching rule
+ */
+export function evaluateCommandSafety(
+  command: string,
+  config: SafetyConfig = {},
+): SafetyVerdict {
+  const disabled = new Set(config.disabledRules || []);
+  const segments = parseShellCommand(command);
+  const matches: SafetyMatch[] = [];
+
+  if (!disabled.has("fork-bomb") && FORK_BOMB.test(command)) {
+    matches.push({
+      rule: "fork-bomb",
+      reason: "fork bomb",
+      segment: command.trim(),
+    });
+  }
+
+  for (const segment of segments) {
+    for (const rule of BUILTIN_RULES) {
+      if (disabled.has(rule.id)) continue;
+      const reason = rule.check(segment);
+      if (reason) {
+        matches.push({ rule: rule.id, reason, segment: segment.text });
+      }
+    }
+  }
+
+  for (const custom of config.rules || []) {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(custom.pattern);
+    } catch {
+      continue; // Invalid user patterns are ignored rather than blocking everything
+    }
+
+    const hit = [command, ...segments.map((s) => s.text)].find((text) =>
+      pattern.test(text),
+    );
+    if (hit !== undefined) {
+      matches.push({
+        rule: "custom",
+        reason: custom.reason || `matches custom rule /${custom.pattern}/`,
+        segment: hit,
+      });
+    }
+  }
+
+  return { blocked: matches.length > 0, matches };
+}
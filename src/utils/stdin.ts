@@ -0,0 +1,152 @@
+/**
+ * Piped Input
+ *
+ * Reads data piped into aish (`cat error.log | aish ask "why?"`) so it can
+ * be attached to prompts as a clearly delimited context block. Input is
+ * capped in size and the block notes when it was truncated.
+ */
+
+import { fstatSync } from "fs";
+
+/** Maximum piped input attached to a prompt */
+export const STDIN_MAX_BYTES = 100 * 1024;
+
+/**
+ * Input read from stdin
+ */
+export interface StdinInput {
+  /** Text that was read (at most STDIN_MAX_BYTES) */
+  text: string;
+  /** Bytes read before the cap was hit */
+  bytes: number;
+  /** Whether more input was available than was kept */
+  truncated: boolean;
+}
+
+/**
+ * Checks whether stdin is a pipe or redirected file
+ *
+ * Terminals, sockets and character devices are skipped, so aish never
+ * blocks waiting on a stdin nobody is writing to.
+ */
+function hasPipedStdin(): boolean {
+  if (process.stdin.isTTY) return false;
+  try {
+    const stat = fstatSync(0);
+    return stat.isFIFO() || stat.isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reads stdin up to a size limit
+ *
+ * @param maxBytes - Cap on the bytes kept
+ * @returns The input, with a flag when it was cut off
+ */
+export async function readStdin(
+  maxBytes: number = STDIN_MAX_BYTES,
+): Promise<StdinInput> {
+  const chunks: Buffer[] = [];
+  let bytes = 0;
+  let truncated = false;
+
+  for await (const chunk of process.stdin) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    if (bytes + buffer.length > maxBytes) {
+      chunks.push(buffer.subarray(0, maxBytes - bytes));
+      bytes = maxBytes;
+      truncated = true;
+      break;
+    }
+    chunks.push(buffer);
+    bytes += buffer.length;
+  }
+
+  if (truncated) {
+    // Stop reading; the writer sees a closed pipe, as with `head`
+    process.stdin.destroy();
+  }
+
+  // A cut at maxBytes can split a multi-byte character; streaming decode
+  // holds back the partial sequence instead of emitting U+FFFD
+  const text = new TextDecoder("utf-8").decode(Buffer.concat(chunks), {
+    stream: truncated,
+  });
+
+  return {
+    text,
+    bytes: truncated ? Buffer.byteLength(text) : bytes,
+    truncated,
+  };
+}
+
+/**
+ * Human-readable size for notices
+ */
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 ? `${Math.round(bytes / 1024)} KB` : `${bytes} bytes`;
+}
+
+/**
+ * Notice shown to the user when piped input was cut off
+ */
+function describeTruncation(input: StdinInput): string {
+  return `Piped input exceeded ${formatBytes(STDIN_MAX_BYTES)}; only the first ${formatBytes(input.bytes)} were used.`;
+}
+
+/**
+ * Wraps piped input in a delimited block for a prompt
+ */
+function formatStdinBlock(input: StdinInput): string {
+  const note = input.truncated
+    ? ` (truncated: only the first ${formatBytes(input.bytes)} are shown)`
+    : "";
+  return `The user piped the following input into this request:\n----- BEGIN STDIN -----\n${input.text.replace(/\n$/, "")}\n----- END STDIN${note} -----`;
+}
+
+/**
+ * A request assembled from arguments and piped input
+ */
+export interface PipedRequest {
+  /** Request text */
+  query: string;
+  /** Delimited stdin block to attach to the prompt */
+  context?: string;
+  /** Truncation notice to show the user */
+  notice?: string;
+  /** Whether stdin was consumed (it can't answer prompts afterwards) */
+  consumedStdin: boolean;
+}
+
+/**
+ * Resolves the request text and piped input for an invocation
+ *
+ * A `-` argument forces reading stdin; otherwise stdin is read when it is a
+ * pipe or file. When the arguments are only `-` (or absent), the piped text
+ * itself is the request.
+ *
+ * @param args - Positional arguments after the subcommand
+ */
+export async function resolvePipedInput(args: string[]): Promise<PipedRequest> {
+  const explicit = args.includes("-");
+  const words = args.filter((arg) => arg !== "-");
+
+  if (!explicit && !hasPipedStdin()) {
+    return { query: words.join(" "), consumedStdin: false };
+  }
+
+  const stdin = await readStdin();
+  const notice = stdin.truncated ? describeTruncation(stdin) : undefined;
+
+  if (words.length === 0) {
+    return { query: stdin.text.trim(), notice, consumedStdin: true };
+  }
+  return {
+    query: words.join(" "),
+    context: stdin.text.trim() ? formatStdinBlock(stdin) : undefined,
+    notice,
+    consumedStdin: true,
+  };
+}
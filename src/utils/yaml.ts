@@ -0,0 +1,97 @@
+/**
+ * YAML Output
+ *
+ * Serializes JSON values as block-style YAML for `--format yaml`. Strings
+ * are quoted whenever a plain scalar could be misread (as a number, boolean,
+ * null or YAML syntax), and multi-line strings use literal blocks.
+ */
+
+/** Plain scalars YAML would read as something other than a string */
+const AMBIGUOUS_SCALAR =
+  /^(?:true|false|yes|no|on|off|y|n|null|~|[-+]?(?:\d[\d_]*(?:\.\d*)?|\.\d+)(?:e[-+]?\d+)?|0x[\da-f]+|0o[0-7]+|[-+]?\.inf|\.nan)$/i;
+
+/**
+ * Formats a string scalar, quoting it when needed
+ */
+function formatString(value: string, indent: string): string {
+  if (value.includes("\n")) {
+    const keep = value.endsWith("\n") ? "" : "-";
+    const lines = value.replace(/\n$/, "").split("\n");
+    return `|${keep}\n${lines.map((line) => (line ? `${indent}  ${line}` : "")).join("\n")}`;
+  }
+
+  const needsQuotes =
+    value === "" ||
+    value !== value.trim() ||
+    AMBIGUOUS_SCALAR.test(value) ||
+    /^[-?:,[\]{}#&*!|>'"%@`]/.test(value) ||
+    /: |\s#|[\x00-\x1f]/.test(value) ||
+    value.endsWith(":");
+  return needsQuotes ? JSON.stringify(value) : value;
+}
+
+/**
+ * Formats a mapping key
+ */
+function formatKey(key: string): string {
+  return /^[A-Za-z_][\w.-]*$/.test(key) && !AMBIGUOUS_SCALAR.test(key)
+    ? key
+    : JSON.stringify(key);
+}
+
+/**
+ * Whether a value is written on the same line as its key or dash
+ */
+function isInline(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length === 0;
+  if (value !== null && typeof value === "object") {
+    return Object.keys(value).length === 0;
+  }
+  return true;
+}
+
+/**
+ * Formats a value that fits on one line
+ */
+function formatInline(value: unknown, indent: string): string {
+  if (value === null || value === undefined) return "null";
+  if (Array.isArray(value)) return "[]";
+  if (typeof value === "object") return "{}";
+  if (typeof value === "string") return formatString(value, indent);
+  return String(value);
+}
+
+/**
+ * Formats a block value (non-empty array or object) at an indentation
+ */
+function formatBlock(value: unknown, indent: string): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      if (isInline(item)) {
+        return [`${indent}- ${formatInline(item, indent)}`];
+      }
+      // The first line of a nested block shares the dash
+      const [first, ...rest] = formatBlock(item, `${indent}  `);
+      return Array.isArray(item)
+        ? [`${indent}-`, first!, ...rest]
+        : [`${indent}- ${first!.trimStart()}`, ...rest];
+    });
+  }
+
+  return Object.entries(value as Record<string, unknown>)
+    .filter(([, item]) => item !== undefined)
+    .flatMap(([key, item]) =>
+      isInline(item)
+        ? [`${indent}${formatKey(key)}: ${formatInline(item, indent)}`]
+        : [`${indent}${formatKey(key)}:`, ...formatBlock(item, `${indent}  `)],
+    );
+}
+
+/**
+ * Serializes a JSON value as YAML
+ */
+export function toYaml(value: unknown): string {
+  return isInline(value)
+    ? formatInline(value, "")
+    : formatBlock(value, "").join("\n");
+}